@@ -0,0 +1,1559 @@
+import type {
+  ScheduleConfig,
+  ScheduleEvent,
+  ScheduleEventMoveDetail,
+  ScheduleEventResizeDetail,
+  ScheduleOverflowClickDetail,
+  ScheduleSlotSelectDetail,
+  ScheduleWeekChangeDetail,
+  EventTimeRange,
+  ValidationError,
+  DayOfWeek
+} from './types';
+import type { AxisRange, AxisSegment, NowPosition, Result } from './types/internal';
+import { WORK_WEEK_DAYS, LaneLayout, OverflowBehavior, TimeSlotInterval, ScheduleOrientation, ScheduleDirection, TranslationKey, DayOfWeek as DayEnum } from './types';
+
+import { validateConfig, validateEvents } from './utils/validators';
+import {
+  groupEventsByDay,
+  groupEventsByResource,
+  compressDayEvents,
+  createOverflowClusterFactory,
+  getVisibleLaneLimit,
+  isOverflowIndicator,
+  snapToInterval,
+  projectEventsToAxis,
+  getAxisStartMinutes,
+  getEventDurationMinutes,
+  axisRangeToTimes,
+  getSegmentKey,
+  fitRangeToEvents,
+  overlapsUnavailable,
+  projectBackgroundsToAxis,
+  resolveVisibleRange
+} from './utils/layoutHelpers';
+import { addDays, formatHeaderDate, getDateForDay, isValidDate, orderDays, resolveWeekEvents, startOfWeek } from './utils/dateHelpers';
+import { convertEventsToTimeZone, convertTimeRange, getLocalTimeZone, getNowPositions } from './utils/timeZone';
+import { createTimeFormatter } from './utils/timeFormat';
+import { createTranslator, getElementDirection, resolveDayNames } from './utils/i18n';
+import { openOverflowPopover } from './utils/overflowPopover';
+import { CanvasRenderer } from './canvas/CanvasRenderer';
+import { LayoutEngine, type LayoutDimensions } from './canvas/LayoutEngine';
+import { GridRenderer, renderNowIndicator, type GridRendererConfig } from './canvas/GridRenderer';
+import { EventRenderer, renderEventDragPreview, renderDropZone, type EventRendererConfig } from './canvas/EventRenderer';
+import { HitTester, isNearEdge, getCursorForEdge } from './canvas/HitTester';
+import { AnimationManager } from './canvas/AnimationManager';
+import { AccessibilityLayer, type AccessibilityConfig } from './canvas/AccessibilityLayer';
+import type {
+  CanvasTheme,
+  DragState,
+  DragTarget,
+  EasingFunction,
+  EventLayout,
+  Point,
+  Rect,
+  ScheduleLayout,
+  SlotSelectionState
+} from './canvas/types';
+import './styles/main.scss';
+
+/**
+ * Canvas specific options for the CanvasWeeklySchedule component
+ */
+export interface CanvasConfig {
+  /** Pixel dimensions used by the layout engine */
+  dimensions?: Partial<LayoutDimensions>;
+
+  /** Theme color overrides */
+  theme?: Partial<CanvasTheme>;
+
+  /** Grid rendering options (fonts, grid lines, alternating backgrounds) */
+  grid?: Partial<Omit<GridRendererConfig, 'dayNameTranslations' | 'dayDateLabels'>>;
+
+  /** Event rendering options (fonts, padding, shadows) */
+  events?: Partial<Omit<EventRendererConfig, 'formatTime'>>;
+
+  /** Screen reader options (event description formatter); labels come from `translations` */
+  accessibility?: Omit<AccessibilityConfig, 'dayNameTranslations' | 'formatTime' | 'translate'>;
+
+  /**
+   * Duration of the zoom animation in milliseconds
+   * Default: 300, use 0 to disable animations
+   */
+  animationDuration?: number;
+
+  /** Easing used for the zoom animation. Default: 'easeOutCubic' */
+  easing?: EasingFunction;
+}
+
+/**
+ * Configuration options for the CanvasWeeklySchedule component
+ */
+export interface CanvasScheduleConfig extends ScheduleConfig {
+  /** Canvas specific options */
+  canvas?: CanvasConfig;
+
+  /**
+   * Allow moving events by dragging them to another day or time
+   * Drops snap to snapInterval and fire a cancelable `schedule-event-move` event
+   * Default: false
+   */
+  enableDragDrop?: boolean;
+
+  /**
+   * Allow resizing events by dragging their start or end edge
+   * Edges snap to snapInterval and fire a cancelable `schedule-event-resize` event
+   * Default: false
+   */
+  enableResize?: boolean;
+
+  /**
+   * Minutes that dragged, resized and selected times snap to (e.g., 5 on a 15 minute grid)
+   * Default: timeSlotInterval
+   */
+  snapInterval?: number;
+
+  /**
+   * Shortest duration (in minutes) an event can be resized to
+   * Default: snapInterval
+   */
+  minEventDuration?: number;
+
+  /**
+   * Allow selecting empty time by clicking a slot or dragging across several
+   * Fires a `schedule-slot-select` event so the host app can create an event there
+   * Default: false
+   */
+  enableSlotSelection?: boolean;
+}
+
+/**
+ * Distance in pixels the pointer must travel before a press becomes a drag
+ */
+const DRAG_THRESHOLD = 4;
+
+/**
+ * Distance in pixels from an event edge that grabs the edge for resizing
+ */
+const RESIZE_HANDLE_SIZE = 6;
+
+/**
+ * Validate the interaction options that only exist on CanvasScheduleConfig
+ */
+function validateInteractionConfig(config: CanvasScheduleConfig): Result<void, ValidationError[]> {
+  const errors: ValidationError[] = [];
+
+  if (config.snapInterval !== undefined) {
+    if (!Number.isInteger(config.snapInterval) || config.snapInterval <= 0) {
+      errors.push({
+        field: 'snapInterval',
+        message: 'snapInterval must be a positive whole number of minutes',
+        value: config.snapInterval
+      });
+    }
+  }
+
+  if (config.minEventDuration !== undefined) {
+    if (!Number.isFinite(config.minEventDuration) || config.minEventDuration <= 0) {
+      errors.push({
+        field: 'minEventDuration',
+        message: 'minEventDuration must be a positive number of minutes',
+        value: config.minEventDuration
+      });
+    }
+  }
+
+  if (errors.length > 0) {
+    return { success: false, error: errors };
+  }
+
+  return { success: true, data: undefined };
+}
+
+/**
+ * Canvas Weekly Schedule Component
+ * Same public API and DOM events as WeeklySchedule, but draws the schedule onto a
+ * single canvas element. Intended for schedules with thousands of events.
+ */
+export class CanvasWeeklySchedule {
+  private container: HTMLElement;
+  private config: CanvasScheduleConfig;
+  private events: ScheduleEvent[];
+  private allEvents: ScheduleEvent[];
+  private zoomedDay: DayOfWeek | null = null;
+  private currentFilter: ((event: ScheduleEvent) => boolean) | null = null;
+  private originalContainerClasses: string;
+  private originalContainerStyle: string;
+
+  private canvas: HTMLCanvasElement;
+  private renderer: CanvasRenderer;
+  private layoutEngine: LayoutEngine;
+  private gridRenderer: GridRenderer;
+  private eventRenderer: EventRenderer;
+  private hitTester: HitTester;
+  private animationManager: AnimationManager;
+  private accessibilityLayer: AccessibilityLayer;
+  private resizeObserver: ResizeObserver;
+
+  private layout: ScheduleLayout | null = null;
+  private hoveredEventId: string | null = null;
+  private hoveredDay: DayOfWeek | null = null;
+  private drawFrame: number | null = null;
+  private dragState: DragState | null = null;
+  private selectionState: SlotSelectionState | null = null;
+  private suppressNextClick = false;
+  private nowPositions: NowPosition[] = [];
+  private nowIndicatorTimeout: ReturnType<typeof setTimeout> | null = null;
+  /** Days showing all lanes after an overflow indicator was clicked (OverflowBehavior.Expand) */
+  private expandedDays = new Set<DayOfWeek>();
+  private closeOverflowPopover: (() => void) | null = null;
+
+  private readonly handleMouseMove = (e: MouseEvent) => this.onMouseMove(e);
+  private readonly handleMouseLeave = () => this.onMouseLeave();
+  private readonly handleClick = (e: MouseEvent) => this.onClick(e);
+  private readonly handlePointerDown = (e: PointerEvent) => this.onPointerDown(e);
+  private readonly handlePointerMove = (e: PointerEvent) => this.onPointerMove(e);
+  private readonly handlePointerUp = (e: PointerEvent) => this.onPointerUp(e);
+  private readonly handlePointerCancel = () => this.cancelDrag();
+
+  /**
+   * Factory method to create a CanvasWeeklySchedule instance with validation
+   * @param container - DOM element where schedule will be rendered
+   * @param config - Configuration options
+   * @param events - Array of events to display (default: empty array)
+   * @returns Result containing either the CanvasWeeklySchedule instance or an error
+   */
+  static create(
+    container: HTMLElement,
+    config: CanvasScheduleConfig,
+    events: ScheduleEvent[] = []
+  ): Result<CanvasWeeklySchedule, Error> {
+    if (!container || !(container instanceof HTMLElement)) {
+      return {
+        success: false,
+        error: new Error('Container must be a valid HTMLElement')
+      };
+    }
+
+    const configValidation = validateConfig(config);
+    const interactionValidation = validateInteractionConfig(config);
+    if (!configValidation.success || !interactionValidation.success) {
+      const errorMessages = [
+        ...(configValidation.success ? [] : configValidation.error),
+        ...(interactionValidation.success ? [] : interactionValidation.error)
+      ].map(e => e.message).join(', ');
+      return {
+        success: false,
+        error: new Error(`Invalid configuration: ${errorMessages}`)
+      };
+    }
+
+    const eventsValidation = validateEvents(events);
+    if (!eventsValidation.success) {
+      const errorMessages = eventsValidation.error.map(e => `${e.field}: ${e.message}`).join(', ');
+      return {
+        success: false,
+        error: new Error(`Invalid events: ${errorMessages}`)
+      };
+    }
+
+    try {
+      const instance = new CanvasWeeklySchedule(container, config, events);
+      return {
+        success: true,
+        data: instance
+      };
+    } catch (err) {
+      return { success: false, error: err as Error };
+    }
+  }
+
+  /**
+   * Private constructor - use CanvasWeeklySchedule.create() instead
+   * @param container - DOM element where schedule will be rendered
+   * @param config - Configuration options (already validated)
+   * @param events - Array of events (already validated)
+   */
+  private constructor(container: HTMLElement, config: CanvasScheduleConfig, events: ScheduleEvent[] = []) {
+    this.container = container;
+    // Capture original classes and styles from user's container
+    this.originalContainerClasses = container.className || '';
+    this.originalContainerStyle = container.getAttribute('style') || '';
+
+    this.events = [...events];
+    this.allEvents = [...events];
+    this.config = this.normalizeConfig(config);
+
+    const canvasConfig = this.config.canvas ?? {};
+
+    this.canvas = document.createElement('canvas');
+    this.canvas.className = 'schedule-canvas';
+    this.canvas.setAttribute('aria-hidden', 'true');
+
+    this.container.innerHTML = '';
+    this.container.classList.add('weekly-schedule', 'weekly-schedule-canvas');
+    this.container.appendChild(this.canvas);
+
+    this.renderer = new CanvasRenderer(this.canvas, canvasConfig.theme);
+    this.layoutEngine = new LayoutEngine(this.config, canvasConfig.dimensions, canvasConfig.theme);
+    this.gridRenderer = new GridRenderer(this.renderer, {
+      ...canvasConfig.grid,
+      dayNameTranslations: resolveDayNames(this.config)
+    });
+    this.eventRenderer = new EventRenderer(this.renderer, {
+      ...canvasConfig.events,
+      formatTime: createTimeFormatter(this.config)
+    });
+    this.hitTester = new HitTester();
+    this.animationManager = new AnimationManager(canvasConfig.animationDuration, canvasConfig.easing);
+    this.animationManager.setFrameCallback(() => this.draw());
+    this.accessibilityLayer = new AccessibilityLayer(this.container, {
+      ...canvasConfig.accessibility,
+      dayNameTranslations: resolveDayNames(this.config),
+      formatTime: createTimeFormatter(this.config),
+      translate: createTranslator(this.config)
+    });
+    this.accessibilityLayer.setupKeyboardNavigation(
+      eventId => this.dispatchEventClick(eventId),
+      day => this.toggleZoom(day)
+    );
+
+    this.canvas.addEventListener('mousemove', this.handleMouseMove);
+    this.canvas.addEventListener('mouseleave', this.handleMouseLeave);
+    this.canvas.addEventListener('click', this.handleClick);
+    this.canvas.addEventListener('pointerdown', this.handlePointerDown);
+    this.canvas.addEventListener('pointermove', this.handlePointerMove);
+    this.canvas.addEventListener('pointerup', this.handlePointerUp);
+    this.canvas.addEventListener('pointercancel', this.handlePointerCancel);
+    this.updateTouchAction();
+
+    this.resizeObserver = new ResizeObserver(() => this.render());
+    this.resizeObserver.observe(this.container);
+
+    // Initial render
+    this.render();
+    this.scheduleNowIndicatorUpdate();
+  }
+
+  /**
+   * Recompute the layout and redraw the schedule
+   */
+  render(): void {
+    const width = this.container.clientWidth;
+    const height = this.container.clientHeight;
+    if (width === 0 || height === 0) {
+      return;
+    }
+
+    const isRtl = this.config.direction === ScheduleDirection.RightToLeft;
+    this.container.classList.toggle('rtl', isRtl);
+    this.container.classList.toggle('ltr', !isRtl);
+
+    this.closeOverflowPopover?.();
+    this.renderer.resize(width, height);
+    this.gridRenderer.updateConfig({ dayDateLabels: this.getDateLabels() });
+
+    const range = this.getVisibleRange();
+    this.layoutEngine.updateConfig({ weekStartDate: this.config.weekStartDate });
+    this.layoutEngine.setVisibleTimeRange(range);
+
+    this.layout = this.layoutEngine.computeLayout(
+      width,
+      height,
+      this.getRenderedEvents(range),
+      this.renderer.getDevicePixelRatio(),
+      this.zoomedDay
+    );
+    this.hitTester.updateLayout(this.layout);
+    this.accessibilityLayer.update(this.layout, this.getWeekEvents());
+    this.nowPositions = this.getNowPositions();
+
+    this.draw();
+  }
+
+  /**
+   * Day columns and axis minutes of the current time, empty when showNowIndicator is off or today is not shown
+   * The canvas always fits the whole time axis, so the indicator is in view without scrolling.
+   */
+  private getNowPositions(): NowPosition[] {
+    if (!this.config.showNowIndicator || !this.layout) return [];
+
+    return getNowPositions(
+      this.config.clock!(),
+      this.config.timeZone!,
+      this.layoutEngine.getVisibleTimeRange(),
+      this.layout.days.map(dayLayout => dayLayout.day),
+      this.config.weekStartDate,
+      this.config.firstDayOfWeek
+    );
+  }
+
+  /**
+   * Move the now indicator at the start of every minute of the configured clock
+   * Only the canvas is redrawn; the layout is kept.
+   */
+  private scheduleNowIndicatorUpdate(): void {
+    if (this.nowIndicatorTimeout) {
+      clearTimeout(this.nowIndicatorTimeout);
+      this.nowIndicatorTimeout = null;
+    }
+    if (!this.config.showNowIndicator) return;
+
+    const msPerMinute = 60 * 1000;
+    const delay = msPerMinute - (this.config.clock!().getTime() % msPerMinute);
+    this.nowIndicatorTimeout = setTimeout(() => {
+      this.nowPositions = this.getNowPositions();
+      this.requestDraw();
+      this.scheduleNowIndicatorUpdate();
+    }, delay);
+  }
+
+  /**
+   * Events passed to the layout engine, placed on the time axis of their day columns
+   * When not zoomed, lanes that don't fit are collapsed into overflow indicators (per resource),
+   * except on days expanded by an overflow indicator click
+   */
+  private getRenderedEvents(range: AxisRange): ScheduleEvent[] {
+    const visibleDays = this.config.visibleDays!;
+    const segments = projectEventsToAxis(this.getWeekEvents(), range, this.config.firstDayOfWeek);
+    const visibleEvents = segments.filter(segment => visibleDays.includes(segment.day));
+
+    if (this.zoomedDay !== null) {
+      return visibleEvents.filter(event => event.day === this.zoomedDay);
+    }
+
+    const laneSpace = this.layoutEngine.getLaneSpace(this.container.clientWidth, this.container.clientHeight);
+    const maxVisibleLanes = getVisibleLaneLimit(this.config, laneSpace);
+    const createCluster = createOverflowClusterFactory(this.events);
+    const renderedEvents: ScheduleEvent[] = [];
+    for (const [day, dayEvents] of groupEventsByDay(visibleEvents).entries()) {
+      if (this.expandedDays.has(day)) {
+        renderedEvents.push(...dayEvents);
+        continue;
+      }
+      for (const group of groupEventsByResource(dayEvents, this.config.resources)) {
+        renderedEvents.push(...compressDayEvents(day, group, this.getOverflowIndicatorFormat(), maxVisibleLanes, createCluster));
+      }
+    }
+    return renderedEvents;
+  }
+
+  /**
+   * Events of the displayed week, converted to the schedule's time zone
+   * In date-anchored mode, dated events outside the week are dropped and the rest placed on their weekday
+   */
+  private getWeekEvents(): ScheduleEvent[] {
+    const weekStart = this.config.weekStartDate;
+    const events = convertEventsToTimeZone(this.events, this.config.timeZone!, weekStart, this.config.firstDayOfWeek);
+    return weekStart ? resolveWeekEvents(events, weekStart, this.config.firstDayOfWeek) : events;
+  }
+
+  /**
+   * Time range covered by the time axis: the configured one, widened to fit all events with autoFitHours
+   */
+  private getVisibleRange(): AxisRange {
+    const range = resolveVisibleRange(this.config);
+    return this.config.autoFitHours
+      ? fitRangeToEvents(
+          this.getWeekEvents(),
+          this.config.visibleDays!,
+          range,
+          this.config.firstDayOfWeek,
+          this.config.timeSlotInterval
+        )
+      : range;
+  }
+
+  /**
+   * Title of overflow indicators: overflowIndicatorFormat, else the translated "+N more"
+   */
+  private getOverflowIndicatorFormat(): (overflowEvents: number) => string {
+    if (this.config.overflowIndicatorFormat) {
+      return this.config.overflowIndicatorFormat;
+    }
+    const translate = createTranslator(this.config);
+    return count => translate(TranslationKey.overflowMore, { count });
+  }
+
+  /**
+   * Formatted dates shown next to the day names, empty when not date-anchored
+   */
+  private getDateLabels(): Partial<Record<DayOfWeek, string>> {
+    const weekStart = this.config.weekStartDate;
+    if (!weekStart) return {};
+
+    const format = this.config.formatDate ?? ((date: Date) => formatHeaderDate(date, this.config.locale));
+    const labels: Partial<Record<DayOfWeek, string>> = {};
+    for (const day of this.config.visibleDays!) {
+      labels[day] = format(getDateForDay(weekStart, day, this.config.firstDayOfWeek));
+    }
+    return labels;
+  }
+
+  /**
+   * Build an interaction time range from a range on a day column's time axis,
+   * adding the calendar date when date-anchored
+   */
+  private createTimeRange(day: DayOfWeek, startMinutes: number, endMinutes: number): EventTimeRange {
+    const range = axisRangeToTimes(day, startMinutes, endMinutes);
+    const weekStart = this.config.weekStartDate;
+    return weekStart
+      ? { ...range, date: getDateForDay(weekStart, range.day, this.config.firstDayOfWeek) }
+      : range;
+  }
+
+  /**
+   * Time range of an event as the interaction detail reports it
+   */
+  private getEventTimeRange(event: ScheduleEvent): EventTimeRange {
+    const [displayed] = convertEventsToTimeZone([event], this.config.timeZone!, this.config.weekStartDate, this.config.firstDayOfWeek);
+    const start = displayed.startTime.toMinutes();
+    return this.createTimeRange(displayed.day, start, start + getEventDurationMinutes(displayed));
+  }
+
+  /**
+   * Start of the whole event on the time axis of a segment's day column
+   * Negative for the next-day part of an event split at midnight
+   */
+  private getEventAxisStart(segment: ScheduleEvent): number {
+    return (segment as Partial<AxisSegment>).eventStartMinutes ?? getAxisStartMinutes(segment);
+  }
+
+  /**
+   * The stored event a rendered segment belongs to
+   */
+  private getSourceEvent(segment: ScheduleEvent): ScheduleEvent {
+    return this.events.find(ev => ev.id === segment.id) ?? segment;
+  }
+
+  /**
+   * Draw the current layout, applying any running animations
+   */
+  private draw(): void {
+    if (!this.layout) return;
+
+    const theme = this.renderer.getTheme();
+    const layout = this.animationManager.isAnimating()
+      ? { ...this.layout, events: this.layout.events.map(eventLayout => this.applyAnimation(eventLayout)) }
+      : this.layout;
+
+    this.gridRenderer.render(layout);
+
+    if (this.hoveredDay !== null) {
+      const dayLayout = layout.days.find(d => d.day === this.hoveredDay);
+      if (dayLayout) {
+        this.gridRenderer.renderDayHoverHighlight(dayLayout, theme);
+      }
+    }
+
+    this.eventRenderer.render(layout, this.hoveredEventId ?? undefined);
+
+    this.nowPositions.forEach(position => {
+      const bounds = this.layoutEngine.getTimeRangeBounds(layout, position.day, position.minutes, position.minutes);
+      if (bounds) {
+        renderNowIndicator(this.renderer, layout, bounds, theme.nowIndicatorColor);
+      }
+    });
+
+    if (this.dragState?.active) {
+      this.drawDragFeedback(this.dragState);
+    }
+
+    if (this.selectionState?.active) {
+      this.drawSlotSelection(this.selectionState);
+    }
+  }
+
+  /**
+   * Draw the drop zone and the dragged event preview
+   */
+  private drawDragFeedback(state: DragState): void {
+    if (!this.layout) return;
+
+    if (state.mode === 'resize') {
+      this.drawResizeFeedback(state);
+      return;
+    }
+
+    if (state.target) {
+      const dropBounds = this.layoutEngine.getTimeRangeBounds(
+        this.layout,
+        state.target.day,
+        state.target.startMinutes,
+        state.target.endMinutes
+      );
+      if (dropBounds) {
+        renderDropZone(this.renderer, dropBounds);
+      }
+    }
+
+    renderEventDragPreview(
+      this.renderer,
+      state.eventLayout,
+      state.current.x - state.origin.x,
+      state.current.y - state.origin.y,
+      this.eventRenderer
+    );
+  }
+
+  /**
+   * Draw the ghost block of the time range being selected
+   */
+  private drawSlotSelection(state: SlotSelectionState): void {
+    if (!this.layout) return;
+
+    const bounds = this.layoutEngine.getTimeRangeBounds(
+      this.layout,
+      state.target.day,
+      state.target.startMinutes,
+      state.target.endMinutes
+    );
+    if (bounds) {
+      renderDropZone(this.renderer, bounds);
+    }
+  }
+
+  /**
+   * Draw the event stretched to its resize target, keeping its lane
+   */
+  private drawResizeFeedback(state: DragState): void {
+    if (!this.layout || !state.target) return;
+
+    const { target, eventLayout } = state;
+    const timeBounds = this.layoutEngine.getTimeRangeBounds(
+      this.layout,
+      target.day,
+      target.startMinutes,
+      target.endMinutes
+    );
+    if (!timeBounds) return;
+
+    const original = eventLayout.bounds;
+    const bounds: Rect = this.config.orientation === ScheduleOrientation.Vertical
+      ? { x: original.x, width: original.width, y: timeBounds.y, height: timeBounds.height }
+      : { x: timeBounds.x, width: timeBounds.width, y: original.y, height: original.height };
+
+    const previewLayout: EventLayout = {
+      ...eventLayout,
+      bounds,
+      event: {
+        ...eventLayout.event,
+        ...axisRangeToTimes(target.day, target.startMinutes, target.endMinutes),
+      },
+    };
+    renderEventDragPreview(this.renderer, previewLayout, 0, 0, this.eventRenderer);
+  }
+
+  /**
+   * Schedule a redraw on the next animation frame (used for hover changes)
+   */
+  private requestDraw(): void {
+    if (this.drawFrame !== null) return;
+    this.drawFrame = requestAnimationFrame(() => {
+      this.drawFrame = null;
+      this.draw();
+    });
+  }
+
+  /**
+   * Interpolate an event layout with its animation state, if any
+   */
+  private applyAnimation(eventLayout: EventLayout): EventLayout {
+    const key = getSegmentKey(eventLayout.event);
+    const animState = this.animationManager.getEventAnimationState(key);
+    if (!animState) return eventLayout;
+
+    const progress = animState.progress;
+    return {
+      ...eventLayout,
+      bounds: this.animationManager.getInterpolatedBounds(key, eventLayout.bounds),
+      opacity: animState.opacity + (animState.targetOpacity - animState.opacity) * progress,
+      scale: animState.scale + (animState.targetScale - animState.scale) * progress,
+    };
+  }
+
+  /**
+   * Re-render and animate events from their previous bounds to the new ones
+   */
+  private renderAnimated(): void {
+    const previousBounds = new Map<string, Rect>();
+    for (const eventLayout of this.layout?.events ?? []) {
+      previousBounds.set(getSegmentKey(eventLayout.event), eventLayout.bounds);
+    }
+
+    this.animationManager.cancelAll();
+    this.render();
+
+    if (!this.layout || this.config.canvas?.animationDuration === 0) return;
+
+    const moves: Array<{ eventId: string; from: Rect; to: Rect }> = [];
+    for (const eventLayout of this.layout.events) {
+      const id = getSegmentKey(eventLayout.event);
+      const from = previousBounds.get(id);
+      if (from) {
+        moves.push({ eventId: id, from, to: eventLayout.bounds });
+      } else {
+        this.animationManager.animateEventAppear(id, eventLayout.bounds);
+      }
+    }
+    if (moves.length > 0) {
+      this.animationManager.animateEvents(moves);
+    }
+  }
+
+  private onMouseMove(e: MouseEvent): void {
+    if (this.dragState?.active || this.selectionState?.active) return;
+
+    const point = this.renderer.eventToCanvasPoint(e);
+    const hit = this.hitTester.hitTest(point);
+
+    const hoveredEvent = hit.type === 'event' && hit.eventLayout && !hit.eventLayout.isOverflow
+      ? hit.event!
+      : null;
+    const hoveredDay = hit.type === 'day-header' ? hit.day! : null;
+
+    if (hit.type === 'event') {
+      if (hit.eventLayout?.isOverflow) {
+        this.canvas.style.cursor = this.config.overflowBehavior === OverflowBehavior.Zoom ? 'zoom-in' : 'pointer';
+      } else {
+        const edge = this.config.enableResize ? isNearEdge(point, hit.eventLayout!.bounds, RESIZE_HANDLE_SIZE) : null;
+        if (edge && this.getResizeEdge(edge, hit.eventLayout!.event)) {
+          this.canvas.style.cursor = getCursorForEdge(
+            this.config.orientation === ScheduleOrientation.Vertical ? 'top' : 'left',
+            null
+          );
+        } else {
+          this.canvas.style.cursor = this.config.enableDragDrop ? 'grab' : 'pointer';
+        }
+      }
+    } else if (hit.type === 'day-header') {
+      this.canvas.style.cursor = this.zoomedDay === hit.day ? 'zoom-out' : 'zoom-in';
+    } else if (hit.type === 'grid' && this.config.enableSlotSelection) {
+      this.canvas.style.cursor = 'cell';
+    } else {
+      this.canvas.style.cursor = '';
+    }
+
+    if (hoveredDay !== this.hoveredDay) {
+      this.hoveredDay = hoveredDay;
+      this.requestDraw();
+    }
+
+    this.setHoveredEvent(hoveredEvent, hit.eventLayout?.bounds);
+  }
+
+  private onMouseLeave(): void {
+    this.canvas.style.cursor = '';
+    if (this.hoveredDay !== null) {
+      this.hoveredDay = null;
+      this.requestDraw();
+    }
+    this.setHoveredEvent(null);
+  }
+
+  /**
+   * Update hover state and dispatch schedule-event-hover / schedule-event-hover-end
+   */
+  private setHoveredEvent(event: ScheduleEvent | null, bounds?: Rect): void {
+    const eventId = event?.id ?? null;
+    if (eventId === this.hoveredEventId) return;
+
+    const previous = this.hoveredEventId !== null
+      ? this.allEvents.find(ev => ev.id === this.hoveredEventId)
+      : undefined;
+    this.hoveredEventId = eventId;
+    this.requestDraw();
+
+    if (previous) {
+      this.container.dispatchEvent(new CustomEvent('schedule-event-hover-end', {
+        detail: { event: previous, element: this.canvas },
+        bubbles: true,
+        cancelable: true
+      }));
+    }
+
+    if (event) {
+      this.container.dispatchEvent(new CustomEvent('schedule-event-hover', {
+        detail: { event, element: this.canvas, bounds },
+        bubbles: true,
+        cancelable: true
+      }));
+    }
+  }
+
+  private onClick(e: MouseEvent): void {
+    // A completed drag also produces a click, which must not select the event
+    if (this.suppressNextClick) {
+      this.suppressNextClick = false;
+      return;
+    }
+
+    const point = this.renderer.eventToCanvasPoint(e);
+    const hit = this.hitTester.hitTest(point);
+
+    if (hit.type === 'day-header' && hit.day !== undefined) {
+      this.toggleZoom(hit.day);
+      return;
+    }
+
+    if (hit.type === 'event' && hit.eventLayout) {
+      if (hit.eventLayout.isOverflow) {
+        this.handleOverflowClick(hit.eventLayout);
+        return;
+      }
+
+      this.dispatchEventClick(hit.eventLayout.event.id);
+    }
+  }
+
+  /**
+   * Fire schedule-overflow-click, then reveal the hidden events the way overflowBehavior says
+   * (unless the host called preventDefault()). Zoom zooms to the day, Popover lists the events
+   * next to the indicator, Expand shows all lanes of the day.
+   */
+  private handleOverflowClick(eventLayout: EventLayout): void {
+    if (!isOverflowIndicator(eventLayout.event)) return;
+    const cluster = eventLayout.event.overflowCluster;
+
+    const proceed = this.container.dispatchEvent(new CustomEvent<ScheduleOverflowClickDetail>('schedule-overflow-click', {
+      detail: { cluster },
+      bubbles: true,
+      cancelable: true
+    }));
+    if (!proceed) return;
+
+    switch (this.config.overflowBehavior) {
+      case OverflowBehavior.Popover: {
+        const canvasRect = this.canvas.getBoundingClientRect();
+        const { x, y, height } = eventLayout.bounds;
+        this.closeOverflowPopover?.();
+        this.closeOverflowPopover = openOverflowPopover({
+          container: this.container,
+          anchorRect: { left: canvasRect.left + x, top: canvasRect.top + y, bottom: canvasRect.top + y + height },
+          cluster,
+          events: eventLayout.event.hiddenSegments,
+          formatTime: createTimeFormatter(this.config),
+          translate: createTranslator(this.config),
+          returnFocus: this.canvas,
+          onSelect: eventId => this.dispatchEventClick(eventId)
+        });
+        break;
+      }
+      case OverflowBehavior.Expand:
+        this.expandedDays.add(cluster.day);
+        this.renderAnimated();
+        break;
+      default:
+        this.zoomToDay(cluster.day);
+    }
+  }
+
+  private onPointerDown(e: PointerEvent): void {
+    if (e.button !== 0) return;
+
+    const point = this.renderer.eventToCanvasPoint(e);
+    const hit = this.hitTester.hitTest(point);
+    if (hit.type === 'grid') {
+      this.startSlotSelection(e, point);
+      return;
+    }
+
+    if (!this.config.enableDragDrop && !this.config.enableResize) return;
+    if (hit.type !== 'event' || !hit.eventLayout || hit.eventLayout.isOverflow) return;
+
+    const resizeEdge = this.config.enableResize
+      ? this.getResizeEdge(isNearEdge(point, hit.eventLayout.bounds, RESIZE_HANDLE_SIZE), hit.eventLayout.event)
+      : null;
+    if (!resizeEdge && !this.config.enableDragDrop) return;
+
+    const time = this.getTimeAtPoint(point);
+    const event = hit.eventLayout.event;
+    this.dragState = {
+      mode: resizeEdge ? 'resize' : 'move',
+      edge: resizeEdge ?? undefined,
+      eventLayout: hit.eventLayout,
+      origin: point,
+      current: point,
+      grabOffsetMinutes: time !== null ? time - this.getEventAxisStart(event) : 0,
+      active: false,
+      target: null,
+    };
+    this.canvas.setPointerCapture(e.pointerId);
+  }
+
+  private onPointerMove(e: PointerEvent): void {
+    if (this.selectionState) {
+      this.updateSlotSelection(this.selectionState, this.renderer.eventToCanvasPoint(e));
+      return;
+    }
+
+    const state = this.dragState;
+    if (!state) return;
+
+    state.current = this.renderer.eventToCanvasPoint(e);
+    if (!state.active) {
+      const dx = state.current.x - state.origin.x;
+      const dy = state.current.y - state.origin.y;
+      if (Math.hypot(dx, dy) < DRAG_THRESHOLD) return;
+
+      state.active = true;
+      if (state.mode === 'move') {
+        this.canvas.style.cursor = 'grabbing';
+      }
+      this.setHoveredEvent(null);
+    }
+
+    state.target = state.mode === 'resize'
+      ? this.computeResizeTarget(state)
+      : this.computeDragTarget(state);
+    this.requestDraw();
+  }
+
+  private onPointerUp(e: PointerEvent): void {
+    if (this.selectionState) {
+      this.finishSlotSelection(e, this.selectionState);
+      return;
+    }
+
+    const state = this.dragState;
+    if (!state) return;
+
+    this.dragState = null;
+    if (this.canvas.hasPointerCapture(e.pointerId)) {
+      this.canvas.releasePointerCapture(e.pointerId);
+    }
+
+    if (!state.active) return;
+
+    this.suppressNextClick = true;
+    this.canvas.style.cursor = '';
+    if (state.target) {
+      if (state.mode === 'resize') {
+        this.commitResize(this.getSourceEvent(state.eventLayout.event), state.edge!, state.target);
+      } else {
+        this.commitMove(this.getSourceEvent(state.eventLayout.event), state.target);
+      }
+    }
+    this.requestDraw();
+  }
+
+  private cancelDrag(): void {
+    if (!this.dragState && !this.selectionState) return;
+    this.dragState = null;
+    this.selectionState = null;
+    this.canvas.style.cursor = '';
+    this.requestDraw();
+  }
+
+  /**
+   * Begin selecting empty time on the day under the pointer
+   */
+  private startSlotSelection(e: PointerEvent, point: Point): void {
+    if (!this.config.enableSlotSelection) return;
+
+    const dayLayout = this.hitTester.getDayAtPoint(point);
+    const time = this.getTimeAtPoint(point);
+    if (!dayLayout || time === null) return;
+
+    const target = this.getSlotRange(dayLayout.day, time, time);
+    if (this.isUnavailable(target)) return;
+
+    this.selectionState = {
+      day: dayLayout.day,
+      anchorMinutes: target.startMinutes,
+      origin: point,
+      current: point,
+      active: false,
+      target,
+    };
+    this.canvas.setPointerCapture(e.pointerId);
+  }
+
+  private updateSlotSelection(state: SlotSelectionState, point: Point): void {
+    state.current = point;
+    if (!state.active) {
+      const dx = state.current.x - state.origin.x;
+      const dy = state.current.y - state.origin.y;
+      if (Math.hypot(dx, dy) < DRAG_THRESHOLD) return;
+
+      state.active = true;
+      this.setHoveredEvent(null);
+    }
+
+    const time = this.getTimeAtPoint(this.clampToGrid(point));
+    if (time !== null) {
+      // The selection stops growing at unavailable time
+      const target = this.getSlotRange(state.day, state.anchorMinutes, time);
+      if (!this.isUnavailable(target)) {
+        state.target = target;
+      }
+    }
+    this.requestDraw();
+  }
+
+  /**
+   * Dispatch schedule-slot-select for the selected range
+   * A press without movement selects the single snapInterval step under the pointer
+   */
+  private finishSlotSelection(e: PointerEvent, state: SlotSelectionState): void {
+    this.selectionState = null;
+    if (this.canvas.hasPointerCapture(e.pointerId)) {
+      this.canvas.releasePointerCapture(e.pointerId);
+    }
+
+    if (state.active) {
+      this.suppressNextClick = true;
+      this.requestDraw();
+    }
+
+    this.container.dispatchEvent(new CustomEvent<ScheduleSlotSelectDetail>('schedule-slot-select', {
+      detail: this.createTimeRange(state.target.day, state.target.startMinutes, state.target.endMinutes),
+      bubbles: true,
+      cancelable: true
+    }));
+  }
+
+  /**
+   * Range covering the whole snapInterval steps containing two times, clamped to the time axis
+   */
+  private getSlotRange(day: DayOfWeek, fromMinutes: number, toMinutes: number): DragTarget {
+    const interval = this.getSnapInterval();
+    const { startMinutes: axisStart, endMinutes: axisEnd } = this.layoutEngine.getVisibleTimeRange();
+    const first = Math.min(fromMinutes, toMinutes);
+    const last = Math.max(fromMinutes, toMinutes);
+
+    const startMinutes = Math.max(axisStart, Math.floor(first / interval) * interval);
+    const endMinutes = Math.min(axisEnd, Math.floor(last / interval) * interval + interval);
+    return { day, startMinutes, endMinutes };
+  }
+
+  /**
+   * Minutes that drags, resizes and slot selections snap to
+   */
+  private getSnapInterval(): number {
+    return this.config.snapInterval ?? this.config.timeSlotInterval!;
+  }
+
+  /**
+   * Resolve the snapped day and time range under the pointer
+   */
+  private computeDragTarget(state: DragState): DragTarget | null {
+    if (!this.layout) return null;
+
+    const point = this.clampToGrid(state.current);
+    const dayLayout = this.hitTester.getDayAtPoint(point);
+    const time = this.getTimeAtPoint(point);
+    if (!dayLayout || time === null) return null;
+
+    const duration = getEventDurationMinutes(state.eventLayout.event);
+    const interval = this.getSnapInterval();
+    const { startMinutes: axisStart, endMinutes: axisEnd } = this.layoutEngine.getVisibleTimeRange();
+
+    let startMinutes = snapToInterval(time - state.grabOffsetMinutes, interval);
+    startMinutes = Math.max(axisStart, Math.min(startMinutes, axisEnd - duration));
+
+    const target = {
+      day: dayLayout.day,
+      startMinutes,
+      endMinutes: startMinutes + duration,
+    };
+    return this.isUnavailable(target) ? null : target;
+  }
+
+  /**
+   * Resolve the new time range while dragging one edge of an event
+   * The opposite edge stays put and the duration stays between minEventDuration and 24 hours.
+   * Times are on the axis of the grabbed segment's day column.
+   */
+  private computeResizeTarget(state: DragState): DragTarget | null {
+    if (!this.layout) return null;
+
+    const time = this.getTimeAtPoint(this.clampToGrid(state.current));
+    if (time === null) return null;
+
+    const segment = state.eventLayout.event;
+    const interval = this.getSnapInterval();
+    const minDuration = this.config.minEventDuration ?? interval;
+    const maxDuration = 24 * 60;
+    const { startMinutes: axisStart, endMinutes: axisEnd } = this.layoutEngine.getVisibleTimeRange();
+    const snapped = snapToInterval(time, interval);
+
+    let startMinutes = this.getEventAxisStart(segment);
+    let endMinutes = startMinutes + getEventDurationMinutes(segment);
+    if (state.edge === 'start') {
+      startMinutes = Math.max(axisStart, endMinutes - maxDuration, Math.min(snapped, endMinutes - minDuration));
+    } else {
+      endMinutes = Math.min(axisEnd, startMinutes + maxDuration, Math.max(snapped, startMinutes + minDuration));
+    }
+
+    const target = { day: segment.day, startMinutes, endMinutes };
+    return this.isUnavailable(target) ? null : target;
+  }
+
+  /**
+   * Check whether a drop, resize or selection target overlaps an unavailable background range
+   */
+  private isUnavailable(target: DragTarget): boolean {
+    const segments = projectBackgroundsToAxis(
+      this.config.backgrounds ?? [],
+      this.layoutEngine.getVisibleTimeRange(),
+      [target.day]
+    );
+    return overlapsUnavailable(segments, target.day, target.startMinutes, target.endMinutes);
+  }
+
+  /**
+   * Map an edge hit on an event to the time edge it controls
+   * Only edges along the time axis (top/bottom when vertical, left/right when horizontal) resize,
+   * and not the midnight edges of an event split across two days
+   */
+  private getResizeEdge(hit: ReturnType<typeof isNearEdge>, segment: ScheduleEvent): 'start' | 'end' | null {
+    const { edge, corner } = hit;
+    const { continuesBefore, continuesAfter } = segment as Partial<AxisSegment>;
+    let timeEdge: 'start' | 'end' | null = null;
+    if (this.config.orientation === ScheduleOrientation.Vertical) {
+      if (edge === 'top' || corner === 'tl' || corner === 'tr') timeEdge = 'start';
+      if (edge === 'bottom' || corner === 'bl' || corner === 'br') timeEdge = 'end';
+    } else {
+      // Time runs from the right edge in right-to-left layouts
+      const isRtl = this.config.direction === ScheduleDirection.RightToLeft;
+      const atLeft = edge === 'left' || corner === 'tl' || corner === 'bl';
+      const atRight = edge === 'right' || corner === 'tr' || corner === 'br';
+      if (isRtl ? atRight : atLeft) timeEdge = 'start';
+      if (isRtl ? atLeft : atRight) timeEdge = 'end';
+    }
+    if ((timeEdge === 'start' && continuesBefore) || (timeEdge === 'end' && continuesAfter)) {
+      return null;
+    }
+    return timeEdge;
+  }
+
+  /**
+   * Minutes since midnight at a canvas point, or null outside the time axis
+   */
+  private getTimeAtPoint(point: Point): number | null {
+    return this.hitTester.getTimeAtPoint(point)?.minutes ?? null;
+  }
+
+  /**
+   * Clamp a point into the grid so drags slightly outside it still resolve
+   */
+  private clampToGrid(point: Point): Point {
+    const grid = this.layout!.gridBounds;
+    return {
+      x: Math.max(grid.x, Math.min(point.x, grid.x + grid.width - 1)),
+      y: Math.max(grid.y, Math.min(point.y, grid.y + grid.height - 1)),
+    };
+  }
+
+  /**
+   * Dispatch schedule-event-move and apply the move unless it was canceled
+   */
+  private commitMove(event: ScheduleEvent, target: DragTarget): void {
+    const from = this.getEventTimeRange(event);
+    const to = this.createTimeRange(target.day, target.startMinutes, target.endMinutes);
+
+    if (from.day === to.day && from.startTime.equals(to.startTime)) {
+      return;
+    }
+
+    const moveEvent = new CustomEvent<ScheduleEventMoveDetail>('schedule-event-move', {
+      detail: { event, from, to },
+      bubbles: true,
+      cancelable: true
+    });
+    if (!this.container.dispatchEvent(moveEvent)) {
+      return;
+    }
+
+    this.replaceEvent(this.applyTimeRange(event, to));
+  }
+
+  /**
+   * Dispatch schedule-event-resize and apply the new times unless it was canceled
+   */
+  private commitResize(event: ScheduleEvent, edge: 'start' | 'end', target: DragTarget): void {
+    const from = this.getEventTimeRange(event);
+    const to = this.createTimeRange(target.day, target.startMinutes, target.endMinutes);
+
+    if (from.day === to.day && from.startTime.equals(to.startTime) && from.endTime.equals(to.endTime)) {
+      return;
+    }
+
+    const resizeEvent = new CustomEvent<ScheduleEventResizeDetail>('schedule-event-resize', {
+      detail: { event, edge, from, to },
+      bubbles: true,
+      cancelable: true
+    });
+    if (!this.container.dispatchEvent(resizeEvent)) {
+      return;
+    }
+
+    this.replaceEvent(this.applyTimeRange(event, to));
+  }
+
+  /**
+   * Copy of an event moved to a time range (endsNextDay follows the range)
+   * The range is in the schedule's time zone; events with another timeZone get it converted back
+   */
+  private applyTimeRange(event: ScheduleEvent, range: EventTimeRange): ScheduleEvent {
+    const { endsNextDay: _endsNextDay, ...rest } = event;
+    const displayZone = this.config.timeZone!;
+    if (!event.timeZone || event.timeZone === displayZone) {
+      return { ...rest, ...range };
+    }
+
+    const { firstDayOfWeek } = this.config;
+    const date = range.date ?? getDateForDay(this.config.weekStartDate ?? startOfWeek(new Date(), firstDayOfWeek), range.day, firstDayOfWeek);
+    const { date: sourceDate, ...converted } = convertTimeRange(range, date, displayZone, event.timeZone);
+    return { ...rest, ...converted, ...(range.date ? { date: sourceDate } : {}) };
+  }
+
+  /**
+   * Replace an event (matched by id) and re-render
+   */
+  private replaceEvent(updated: ScheduleEvent): void {
+    this.allEvents = this.allEvents.map(ev => (ev.id === updated.id ? updated : ev));
+    this.events = this.applyFilter(this.allEvents);
+    this.render();
+  }
+
+  /**
+   * Disable browser panning on touch devices while drag interactions are enabled
+   */
+  private updateTouchAction(): void {
+    const { enableDragDrop, enableResize, enableSlotSelection } = this.config;
+    this.canvas.style.touchAction = enableDragDrop || enableResize || enableSlotSelection ? 'none' : '';
+  }
+
+  private dispatchEventClick(eventId: string): void {
+    const scheduleEvent = this.events.find(ev => ev.id === eventId);
+    if (!scheduleEvent) {
+      return;
+    }
+
+    this.container.dispatchEvent(new CustomEvent('schedule-event-click', {
+      detail: { event: scheduleEvent },
+      bubbles: true,
+      cancelable: true
+    }));
+  }
+
+  private toggleZoom(day: DayOfWeek): void {
+    if (this.zoomedDay === day) {
+      this.resetZoom();
+    } else {
+      this.zoomToDay(day);
+    }
+  }
+
+  private normalizeConfig(config: CanvasScheduleConfig): CanvasScheduleConfig {
+    const firstDayOfWeek = config.firstDayOfWeek ?? DayEnum.Monday;
+    return {
+      visibleDays: orderDays(config.visibleDays || WORK_WEEK_DAYS, firstDayOfWeek),
+      firstDayOfWeek,
+      startHour: config.startHour ?? 9,
+      endHour: config.endHour ?? 17,
+      visibleStart: config.visibleStart,
+      visibleEnd: config.visibleEnd,
+      timeSlotInterval: config.timeSlotInterval ?? TimeSlotInterval.SixtyMinutes,
+      labelInterval: config.labelInterval,
+      dayNameTranslations: config.dayNameTranslations,
+      orientation: config.orientation ?? ScheduleOrientation.Vertical,
+      direction: config.direction ?? getElementDirection(this.container),
+      icons: config.icons,
+      renderEvent: config.renderEvent,
+      renderOverflow: config.renderOverflow,
+      eventGap: config.eventGap,
+      overflowIndicatorFormat: config.overflowIndicatorFormat,
+      translations: config.translations,
+      canvas: config.canvas,
+      enableDragDrop: config.enableDragDrop ?? false,
+      enableResize: config.enableResize ?? false,
+      enableSlotSelection: config.enableSlotSelection ?? false,
+      weekStartDate: config.weekStartDate ? startOfWeek(config.weekStartDate, firstDayOfWeek) : undefined,
+      formatDate: config.formatDate,
+      snapInterval: config.snapInterval,
+      minEventDuration: config.minEventDuration,
+      autoFitHours: config.autoFitHours ?? false,
+      timeZone: config.timeZone ?? getLocalTimeZone(),
+      secondaryTimeZone: config.secondaryTimeZone,
+      locale: config.locale,
+      timeFormat: config.timeFormat,
+      formatTime: config.formatTime,
+      showNowIndicator: config.showNowIndicator ?? false,
+      clock: config.clock ?? (() => new Date()),
+      backgrounds: config.backgrounds,
+      resources: config.resources,
+      laneLayout: config.laneLayout ?? LaneLayout.Equal,
+      maxVisibleLanes: config.maxVisibleLanes,
+      minEventWidthPx: config.minEventWidthPx,
+      overflowBehavior: config.overflowBehavior ?? OverflowBehavior.Zoom,
+    } as CanvasScheduleConfig;
+  }
+
+  /**
+   * Get current events array (copy)
+   */
+  getEvents(): ScheduleEvent[] {
+    return [...this.events];
+  }
+
+  /**
+   * Filter events at runtime using a predicate function.
+   * The predicate receives each event and should return true to keep it, false to remove it.
+   * Triggers a re-render on success.
+   */
+  filterEvents(predicate: (event: ScheduleEvent) => boolean): Result<void, Error> {
+    try {
+      if (typeof predicate !== 'function') {
+        return {
+          success: false,
+          error: new Error('Predicate must be a function')
+        };
+      }
+      this.currentFilter = predicate;
+      this.events = this.applyFilter(this.allEvents);
+      this.render();
+      return { success: true, data: undefined };
+    } catch (err) {
+      return { success: false, error: err as Error };
+    }
+  }
+
+  /**
+   * Clear any active event filtering and restore original events.
+   */
+  clearFilter(): Result<void, Error> {
+    try {
+      this.currentFilter = null;
+      this.events = [...this.allEvents];
+      this.render();
+      return { success: true, data: undefined };
+    } catch (err) {
+      return { success: false, error: err as Error };
+    }
+  }
+
+  private applyFilter(events: ScheduleEvent[]): ScheduleEvent[] {
+    const predicate = this.currentFilter;
+    if (predicate === null) {
+      return [...events];
+    }
+    return events.filter(ev => {
+      try {
+        return !!predicate(ev);
+      } catch (e) {
+        // If predicate throws, treat as "do not include"
+        return false;
+      }
+    });
+  }
+
+  /**
+   * Get current configuration (copy)
+   */
+  getConfig(): CanvasScheduleConfig {
+    return { ...this.config };
+  }
+
+  /**
+   * Update events and re-render
+   * @param events - New events array
+   * @returns Result indicating success or failure
+   */
+  updateEvents(events: ScheduleEvent[]): Result<void, Error> {
+    const validation = validateEvents(events);
+    if (!validation.success) {
+      const errorMessages = validation.error.map(e => `${e.field}: ${e.message}`).join(', ');
+      return {
+        success: false,
+        error: new Error(`Invalid events: ${errorMessages}`)
+      };
+    }
+
+    this.allEvents = [...events];
+    this.events = this.applyFilter(this.allEvents);
+    this.render();
+
+    return {
+      success: true,
+      data: undefined
+    };
+  }
+
+  zoomToDay(day: DayOfWeek): void {
+    if (this.zoomedDay === day) {
+      return;
+    }
+
+    this.zoomedDay = day;
+    this.expandedDays.clear();
+    this.renderAnimated();
+    this.accessibilityLayer.announceDay(day);
+  }
+
+  resetZoom(): void {
+    if (this.zoomedDay === null) return;
+    this.zoomedDay = null;
+    this.expandedDays.clear();
+    this.renderAnimated();
+    this.accessibilityLayer.announceZoomReset();
+  }
+
+  /**
+   * Get the first day (local midnight) of the displayed week
+   * @returns The week start, or null when the schedule is not date-anchored
+   */
+  getWeekStart(): Date | null {
+    return this.config.weekStartDate ? new Date(this.config.weekStartDate.getTime()) : null;
+  }
+
+  /**
+   * Navigate a date-anchored schedule to the following week
+   */
+  nextWeek(): Result<void, Error> {
+    if (!this.config.weekStartDate) {
+      return { success: false, error: new Error('Week navigation requires weekStartDate to be configured') };
+    }
+    return this.goToDate(addDays(this.config.weekStartDate, 7));
+  }
+
+  /**
+   * Navigate a date-anchored schedule to the preceding week
+   */
+  prevWeek(): Result<void, Error> {
+    if (!this.config.weekStartDate) {
+      return { success: false, error: new Error('Week navigation requires weekStartDate to be configured') };
+    }
+    return this.goToDate(addDays(this.config.weekStartDate, -7));
+  }
+
+  /**
+   * Navigate a date-anchored schedule to the week containing a date
+   * Fires `schedule-week-change` when the displayed week changes
+   * @param date - Any date inside the target week
+   */
+  goToDate(date: Date): Result<void, Error> {
+    const previousWeekStart = this.config.weekStartDate;
+    if (!previousWeekStart) {
+      return { success: false, error: new Error('Week navigation requires weekStartDate to be configured') };
+    }
+    if (!isValidDate(date)) {
+      return { success: false, error: new Error('date must be a valid Date instance') };
+    }
+
+    const weekStart = startOfWeek(date, this.config.firstDayOfWeek);
+    if (weekStart.getTime() === previousWeekStart.getTime()) {
+      return { success: true, data: undefined };
+    }
+
+    this.config = { ...this.config, weekStartDate: weekStart };
+    this.expandedDays.clear();
+    this.renderAnimated();
+
+    this.container.dispatchEvent(new CustomEvent<ScheduleWeekChangeDetail>('schedule-week-change', {
+      detail: { weekStart: new Date(weekStart.getTime()), previousWeekStart },
+      bubbles: true,
+      cancelable: true
+    }));
+
+    return { success: true, data: undefined };
+  }
+
+  /**
+   * Update configuration and re-render
+   * @param newConfig - Partial configuration to merge
+   * @returns Result indicating success or failure
+   */
+  updateConfig(newConfig: Partial<CanvasScheduleConfig>): Result<void, Error> {
+    const mergedConfig: CanvasScheduleConfig = {
+      ...this.config,
+      ...newConfig
+    };
+
+    const validation = validateConfig(mergedConfig);
+    const interactionValidation = validateInteractionConfig(mergedConfig);
+    if (!validation.success || !interactionValidation.success) {
+      const errorMessages = [
+        ...(validation.success ? [] : validation.error),
+        ...(interactionValidation.success ? [] : interactionValidation.error)
+      ].map(e => e.message).join(', ');
+      return {
+        success: false,
+        error: new Error(`Invalid configuration: ${errorMessages}`)
+      };
+    }
+
+    this.config = this.normalizeConfig(mergedConfig);
+    const canvasConfig = this.config.canvas ?? {};
+
+    this.layoutEngine = new LayoutEngine(this.config, canvasConfig.dimensions, canvasConfig.theme);
+    this.renderer.setTheme(canvasConfig.theme ?? {});
+    this.gridRenderer.updateConfig({
+      ...canvasConfig.grid,
+      dayNameTranslations: resolveDayNames(this.config)
+    });
+    this.eventRenderer.updateConfig({
+      ...canvasConfig.events,
+      formatTime: createTimeFormatter(this.config)
+    });
+    this.accessibilityLayer.updateConfig({
+      ...canvasConfig.accessibility,
+      dayNameTranslations: resolveDayNames(this.config),
+      formatTime: createTimeFormatter(this.config),
+      translate: createTranslator(this.config)
+    });
+
+    this.updateTouchAction();
+
+    if (this.zoomedDay !== null && !this.config.visibleDays!.includes(this.zoomedDay)) {
+      this.zoomedDay = null;
+    }
+
+    this.render();
+    this.scheduleNowIndicatorUpdate();
+
+    return {
+      success: true,
+      data: undefined
+    };
+  }
+
+  /**
+   * Clean up component and remove event listeners
+   */
+  destroy(): void {
+    this.closeOverflowPopover?.();
+    if (this.drawFrame !== null) {
+      cancelAnimationFrame(this.drawFrame);
+      this.drawFrame = null;
+    }
+    if (this.nowIndicatorTimeout) {
+      clearTimeout(this.nowIndicatorTimeout);
+      this.nowIndicatorTimeout = null;
+    }
+    this.animationManager.dispose();
+    this.resizeObserver.disconnect();
+    this.canvas.removeEventListener('mousemove', this.handleMouseMove);
+    this.canvas.removeEventListener('mouseleave', this.handleMouseLeave);
+    this.canvas.removeEventListener('click', this.handleClick);
+    this.canvas.removeEventListener('pointerdown', this.handlePointerDown);
+    this.canvas.removeEventListener('pointermove', this.handlePointerMove);
+    this.canvas.removeEventListener('pointerup', this.handlePointerUp);
+    this.canvas.removeEventListener('pointercancel', this.handlePointerCancel);
+    this.accessibilityLayer.destroy();
+    this.canvas.remove();
+
+    // Restore original classes and styles
+    this.container.className = this.originalContainerClasses;
+    if (this.originalContainerStyle) {
+      this.container.setAttribute('style', this.originalContainerStyle);
+    } else {
+      this.container.removeAttribute('style');
+    }
+    this.events = [];
+    this.allEvents = [];
+    this.layout = null;
+  }
+}
@@ -4,18 +4,34 @@ import type {
   AxisConfiguration,
   LaneInfo,
   DayOfWeek,
-  RenderContext
+  RenderContext,
+  ScheduleOverflowClickDetail,
+  ScheduleWeekChangeDetail,
+  TimeOnly
 } from './types';
-import type { Result } from './types/internal';
-import { WORK_WEEK_DAYS, TimeSlotInterval, ScheduleOrientation, TimeOnly, IconConfig, getDayName, TranslationKey } from './types';
-
-import { validateConfig, validateEvent } from './utils/validators';
-import { calculateEventPosition, groupEventsByDay, assignLanes } from './utils/layoutHelpers';
-import { createTimeLabelHTML, generateTimeSlots } from './templates/timeAxisTemplate';
-import { createDayHeaderHTML, createZoomedDayHeaderHTML } from './templates/dayColumnTemplate';
+import type { AxisRange, NowPosition, OverflowIndicator, Result } from './types/internal';
+import { WORK_WEEK_DAYS, LaneLayout, OverflowBehavior, TimeSlotInterval, ScheduleOrientation, ScheduleDirection, IconConfig, getDayName, TranslationKey, DayOfWeek as DayEnum } from './types';
+
+import { validateConfig, validateEvents } from './utils/validators';
+import { calculateEventPosition, groupEventsByDay, groupEventsByResource, assignResourceLanes, compressDayEvents, createOverflowClusterFactory, getVisibleLaneLimit, isOverflowIndicator, getSegmentKey, projectEventsToAxis, fitRangeToEvents, getAxisSlots, getAxisEndMinutes, getAxisStartMinutes, getViewportAxisRange, isLabeledSlot, projectBackgroundsToAxis, resolveVisibleRange, timeToAxisOffset } from './utils/layoutHelpers';
+import { addDays, formatHeaderDate, getDateForDay, isValidDate, orderDays, resolveWeekEvents, startOfWeek } from './utils/dateHelpers';
+import { convertEventsToTimeZone, getLocalTimeZone, getNowPositions, getSecondaryAxisTimes } from './utils/timeZone';
+import { createTimeFormatter } from './utils/timeFormat';
+import { createTranslator, getElementDirection, resolveDayNames } from './utils/i18n';
+import { openOverflowPopover } from './utils/overflowPopover';
+import { patchInnerHTML } from './utils/domPatch';
+import { createNowIndicatorHTML, createTimeAxisSpacerHTML, createTimeLabelHTML, generateTimeSlots } from './templates/timeAxisTemplate';
+import { createBackgroundHTML, createDateLabelHTML, createDayHeaderGroupHTML, createDayHeaderHTML, createResourceDividerHTML, createZoomedDayHeaderHTML } from './templates/dayColumnTemplate';
 import { createEventHTML, createOverflowIndicatorHTML } from './templates/eventTemplate';
 import './styles/main.scss';
 
+/** Height of a time slot of a zoomed vertical day (--slot-row-height) */
+const ZOOMED_SLOT_HEIGHT = 64;
+/** Narrowest time slot of a zoomed horizontal day, must match $hour-col-min-width in _variables.scss */
+const ZOOMED_SLOT_MIN_WIDTH = 160;
+/** Part of the time axis rendered before and after the viewport, in viewport lengths */
+const VIRTUAL_OVERSCAN = 0.5;
+
 /**
  * Weekly Schedule Component
  * Displays a generic weekly schedule with events positioned by day and time
@@ -27,12 +43,26 @@ export class WeeklySchedule {
   private allEvents: ScheduleEvent[];
   private originalVisibleDays: DayOfWeek[];
   private zoomedDay: DayOfWeek | null = null;
-  private pendingScrollTargetId: string | null = null;
+  /** Axis minutes to scroll to after the next zoom */
+  private pendingScrollMinutes: number | null = null;
   private resizeObserver: ResizeObserver;
   private hoveredElement: HTMLElement | null = null;
   private hoverTimeout: ReturnType<typeof setTimeout> | null = null;
-  private attachHoverListenersTimeout: ReturnType<typeof setTimeout> | null = null;
   private currentFilter: ((event: ScheduleEvent) => boolean) | null = null;
+  private nowIndicatorTimeout: ReturnType<typeof setTimeout> | null = null;
+  private hasScrolledToNow = false;
+  /** Overflow indicators of the current render by cluster id */
+  private overflowIndicators = new Map<string, OverflowIndicator>();
+  /** Days showing all lanes after an overflow indicator was clicked (OverflowBehavior.Expand) */
+  private expandedDays = new Set<DayOfWeek>();
+  private closeOverflowPopover: (() => void) | null = null;
+  private readonly handleKeyDown = (e: KeyboardEvent) => this.onKeyDown(e);
+  private readonly handleMouseOver = (e: MouseEvent) => this.onMouseOver(e);
+  private readonly handleMouseOut = (e: MouseEvent) => this.onMouseOut(e);
+  private readonly handleScroll = () => this.requestWindowCheck();
+  /** Part of the time axis rendered by the last update (viewport plus overscan), null when all of it is */
+  private renderedWindow: AxisRange | null = null;
+  private windowCheckFrame: number | null = null;
   private originalContainerClasses: string;
   private originalContainerStyle: string;
 
@@ -64,20 +94,12 @@ export class WeeklySchedule {
       };
     }
 
-    const eventErrors: string[] = [];
-    events.forEach((event, index) => {
-      const result = validateEvent(event);
-      if (!result.success) {
-        result.error.forEach(err => {
-          eventErrors.push(`events[${index}].${err.field}: ${err.message}`);
-        });
-      }
-    });
-
-    if (eventErrors.length > 0) {
+    const eventsValidation = validateEvents(events);
+    if (!eventsValidation.success) {
+      const errorMessages = eventsValidation.error.map(e => `${e.field}: ${e.message}`).join(', ');
       return {
         success: false,
-        error: new Error(`Invalid events: ${eventErrors.join(', ')}`)
+        error: new Error(`Invalid events: ${errorMessages}`)
       };
     }
 
@@ -102,20 +124,43 @@ export class WeeklySchedule {
     
     this.events = [...events];
     this.allEvents = [...events];
+    const firstDayOfWeek = config.firstDayOfWeek ?? DayEnum.Monday;
     this.config = {
-      visibleDays: config.visibleDays || [...WORK_WEEK_DAYS],
+      visibleDays: orderDays(config.visibleDays || WORK_WEEK_DAYS, firstDayOfWeek),
+      firstDayOfWeek,
       startHour: config.startHour ?? 9,
       endHour: config.endHour ?? 17,
+      visibleStart: config.visibleStart,
+      visibleEnd: config.visibleEnd,
       timeSlotInterval: config.timeSlotInterval ?? TimeSlotInterval.SixtyMinutes,
+      labelInterval: config.labelInterval,
 
       dayNameTranslations: config.dayNameTranslations,
 
       orientation: config.orientation ?? ScheduleOrientation.Vertical,
+      direction: config.direction ?? getElementDirection(container),
       icons: config.icons,
       renderEvent: config.renderEvent,
+      renderOverflow: config.renderOverflow,
       eventGap: config.eventGap,
       overflowIndicatorFormat: config.overflowIndicatorFormat,
       translations: config.translations,
+      weekStartDate: config.weekStartDate ? startOfWeek(config.weekStartDate, firstDayOfWeek) : undefined,
+      formatDate: config.formatDate,
+      autoFitHours: config.autoFitHours ?? false,
+      timeZone: config.timeZone ?? getLocalTimeZone(),
+      secondaryTimeZone: config.secondaryTimeZone,
+      locale: config.locale,
+      timeFormat: config.timeFormat,
+      formatTime: config.formatTime,
+      showNowIndicator: config.showNowIndicator ?? false,
+      clock: config.clock ?? (() => new Date()),
+      backgrounds: config.backgrounds,
+      resources: config.resources,
+      laneLayout: config.laneLayout ?? LaneLayout.Equal,
+      maxVisibleLanes: config.maxVisibleLanes,
+      minEventWidthPx: config.minEventWidthPx,
+      overflowBehavior: config.overflowBehavior ?? OverflowBehavior.Zoom,
     } as ScheduleConfig;
 
     this.originalVisibleDays = [...(this.config.visibleDays || WORK_WEEK_DAYS)];
@@ -127,136 +172,200 @@ export class WeeklySchedule {
 
     // Initial render
     this.render();
+    this.scheduleNowIndicatorUpdate();
   }
 
   /**
    * Render the schedule component
    */
   render(): void {
-    const updateDOM = () => {
-      const isMobile = this.container.offsetWidth < 768; // Breakpoint for mobile view
-      const orientationClass = this.config.orientation === ScheduleOrientation.Horizontal ? 'horizontal' : 'vertical';
-      const zoomClass = this.zoomedDay !== null ? 'zoomed' : '';
-      const mobileClass = isMobile ? 'mobile' : '';
-
-      const axisConfiguration = this.getAxisConfiguration();
-      let styleString = `
-        --num-columns: ${axisConfiguration.numColumns}; 
-        --num-rows: ${axisConfiguration.numRows}; 
-        --header-height: ${axisConfiguration.headerHeight}; 
-        --cross-axis-width: ${axisConfiguration.crossAxisWidth};
-      `;
-      if (this.zoomedDay !== null && this.config.orientation === ScheduleOrientation.Vertical) {
-        styleString += ' --slot-row-height: 64px;';
-      }
-
-      // Fetch fresh classes and styles from container (allows programmatic updates)
-      const currentClasses = this.container.className || '';
-      const currentStyle = this.container.getAttribute('style') || '';
-      
-      // Filter out our component classes to preserve only user classes
-      const componentClassNames = ['weekly-schedule', 'horizontal', 'vertical', 'zoomed', 'mobile'];
-      const userClasses = currentClasses
-        .split(' ')
-        .filter(cls => cls && !componentClassNames.includes(cls))
-        .join(' ');
-      
-      // Merge user classes with component classes
-      const componentClasses = `weekly-schedule ${orientationClass} ${zoomClass} ${mobileClass}`;
-      const mergedClasses = userClasses 
-        ? `${userClasses} ${componentClasses}`
-        : componentClasses;
-      this.container.className = mergedClasses;
-
-      // Filter out our component styles to preserve only user styles
-      const componentStyleProps = ['--num-columns', '--num-rows', '--header-height', '--cross-axis-width', '--slot-row-height', '--hour-col-width'];
-      const userStyles = currentStyle
-        .split(';')
-        .filter(style => {
-          const prop = style.trim().split(':')[0]?.trim();
-          return prop && !componentStyleProps.includes(prop);
-        })
-        .join('; ');
-      
-      // Merge user styles with component styles
-      const mergedStyles = userStyles
-        ? `${userStyles}; ${styleString}`
-        : styleString;
-      this.container.setAttribute('style', mergedStyles);
-
-      // Set innerHTML to just the inner content
-      const html = isMobile ? this.renderMobileView() : this.renderClassicView();
-
-      this.cleanupHoverListeners();
-      this.container.innerHTML = html;
-      
-      // Calculate and set --hour-col-width for zoomed horizontal mode
-      if (this.zoomedDay !== null && this.config.orientation === ScheduleOrientation.Horizontal) {
-        setTimeout(() => {
-          const scheduleScroll = this.container.querySelector('.schedule-scroll') as HTMLElement;
-          if (scheduleScroll) {
-            const availableWidth = scheduleScroll.clientWidth;
-            const numColumns = axisConfiguration.numColumns;
-            const calculatedWidth = availableWidth / numColumns;
-            const minWidth = 160; // Must match $hour-col-min-width in _variables.scss
-            const hourColWidth = calculatedWidth < minWidth ? minWidth : calculatedWidth;
-            
-            // Update the CSS variable
-            const currentStyle = this.container.getAttribute('style') || '';
-            const updatedStyle = currentStyle.includes('--hour-col-width')
-              ? currentStyle.replace(/--hour-col-width:\s*[^;]+;?/, `--hour-col-width: ${hourColWidth}px;`)
-              : `${currentStyle}; --hour-col-width: ${hourColWidth}px;`;
-            this.container.setAttribute('style', updatedStyle);
-          }
-        }, 0);
-      }
-      
-      this.attachHoverListenersTimeout = setTimeout(() => {
-        this.attachHoverListeners();
-        this.attachHoverListenersTimeout = null;
-      }, 0);
-
-      if (!isMobile && this.zoomedDay !== null) {
-        if (this.pendingScrollTargetId) {
-          const targetEl = this.container.querySelector<HTMLElement>(`.events-grid .event[data-event-id="${this.pendingScrollTargetId}"]`);
-          if (targetEl) {
-            setTimeout(() => this.scrollToElementInScroll(targetEl), 0);
-          }
-          this.pendingScrollTargetId = null;
-        } else {
-          const day = this.zoomedDay;
-          const dayEvents = this.events
-            .filter(ev => ev.day === day)
-            .sort((a, b) => a.startTime.toMinutes() - b.startTime.toMinutes());
-          if (dayEvents.length > 0) {
-            const firstId = String(dayEvents[0].id);
-            const firstEl = this.container.querySelector<HTMLElement>(`.events-grid .event[data-event-id="${firstId}"]`);
-            if (firstEl) {
-              setTimeout(() => this.scrollToElementInScroll(firstEl), 0);
-            }
-          }
-        }
-      }
+    const update = () => {
+      this.updateDOM();
+      this.scrollToTarget();
     };
 
     if ('startViewTransition' in document) {
-      document.startViewTransition(() => {
-        updateDOM();
-      });
+      document.startViewTransition(update);
     } else {
-      updateDOM();
+      update();
     }
   }
 
-  private renderClassicView(): string {
-    const startTime = new TimeOnly(this.config.startHour!, 0);
-    const visibleEvents = this.events.filter(event => {
-      if (!this.config.visibleDays!.includes(event.day)) {
-        return false;
+  /**
+   * Patch the DOM to the current state, rendering only the part of the time axis around the viewport
+   * @private
+   */
+  private updateDOM(): void {
+    const isMobile = this.container.offsetWidth < 768; // Breakpoint for mobile view
+    this.renderedWindow = isMobile ? null : this.getRenderedWindow(VIRTUAL_OVERSCAN);
+    const orientationClass = this.config.orientation === ScheduleOrientation.Horizontal ? 'horizontal' : 'vertical';
+    const directionClass = this.config.direction === ScheduleDirection.RightToLeft ? 'rtl' : 'ltr';
+    const zoomClass = this.zoomedDay !== null ? 'zoomed' : '';
+    const mobileClass = isMobile ? 'mobile' : '';
+
+    const axisConfiguration = this.getAxisConfiguration();
+    let styleString = `
+      --num-columns: ${axisConfiguration.numColumns}; 
+      --num-rows: ${axisConfiguration.numRows}; 
+      --slot-units: ${axisConfiguration.slotUnits};
+      --slot-lead: ${axisConfiguration.slotLead};
+      --time-tracks: ${axisConfiguration.timeTracks};
+      --header-height: ${axisConfiguration.headerHeight}; 
+      --cross-axis-width: ${axisConfiguration.crossAxisWidth};
+    `;
+    if (this.zoomedDay !== null && this.config.orientation === ScheduleOrientation.Vertical) {
+      styleString += ` --slot-row-height: ${ZOOMED_SLOT_HEIGHT}px;`;
+    }
+
+    // Fetch fresh classes and styles from container (allows programmatic updates)
+    const currentClasses = this.container.className || '';
+    const currentStyle = this.container.getAttribute('style') || '';
+    
+    // Filter out our component classes to preserve only user classes
+    const componentClassNames = ['weekly-schedule', 'horizontal', 'vertical', 'rtl', 'ltr', 'zoomed', 'mobile'];
+    const userClasses = currentClasses
+      .split(' ')
+      .filter(cls => cls && !componentClassNames.includes(cls))
+      .join(' ');
+    
+    // Merge user classes with component classes
+    const componentClasses = `weekly-schedule ${orientationClass} ${directionClass} ${zoomClass} ${mobileClass}`;
+    const mergedClasses = userClasses 
+      ? `${userClasses} ${componentClasses}`
+      : componentClasses;
+    this.container.className = mergedClasses;
+
+    // Filter out our component styles to preserve only user styles
+    const componentStyleProps = ['--num-columns', '--num-rows', '--slot-units', '--slot-lead', '--time-tracks', '--header-height', '--cross-axis-width', '--slot-row-height', '--hour-col-width'];
+    const userStyles = currentStyle
+      .split(';')
+      .filter(style => {
+        const prop = style.trim().split(':')[0]?.trim();
+        return prop && !componentStyleProps.includes(prop);
+      })
+      .join('; ');
+    
+    // Merge user styles with component styles
+    const mergedStyles = userStyles
+      ? `${userStyles}; ${styleString}`
+      : styleString;
+    this.container.setAttribute('style', mergedStyles);
+
+    // Patch the inner content, keeping nodes (and their focus and scroll positions) that stay
+    const html = isMobile ? this.renderMobileView() : this.renderClassicView();
+
+    this.closeOverflowPopover?.();
+    const focused = document.activeElement;
+    patchInnerHTML(this.container, html);
+    // Moved nodes lose focus, give it back
+    if (focused instanceof HTMLElement && focused !== document.activeElement && this.container.contains(focused)) {
+      focused.focus({ preventScroll: true });
+    }
+    if (this.hoveredElement && !this.hoveredElement.isConnected) {
+      this.hoveredElement = null;
+    }
+    
+    // Calculate and set --hour-col-width for zoomed horizontal mode
+    if (this.zoomedDay !== null && this.config.orientation === ScheduleOrientation.Horizontal) {
+      setTimeout(() => {
+        const scheduleScroll = this.container.querySelector('.schedule-scroll') as HTMLElement;
+        if (scheduleScroll) {
+          const availableWidth = scheduleScroll.clientWidth;
+          const calculatedWidth = availableWidth / axisConfiguration.slotUnits;
+          const hourColWidth = Math.max(calculatedWidth, ZOOMED_SLOT_MIN_WIDTH);
+          
+          // Update the CSS variable
+          const currentStyle = this.container.getAttribute('style') || '';
+          const updatedStyle = currentStyle.includes('--hour-col-width')
+            ? currentStyle.replace(/--hour-col-width:\s*[^;]+;?/, `--hour-col-width: ${hourColWidth}px;`)
+            : `${currentStyle}; --hour-col-width: ${hourColWidth}px;`;
+          this.container.setAttribute('style', updatedStyle);
+        }
+      }, 0);
+    }
+
+    this.requestWindowCheck();
+  }
+
+  /**
+   * Scroll to the current time on the first render, and to the first (or requested) event of a zoomed day
+   * Targets are scrolled to by time, so they don't need to be rendered.
+   * @private
+   */
+  private scrollToTarget(): void {
+    if (this.container.classList.contains('mobile')) return;
+
+    const axis = this.getVisibleRange();
+    // Bring the current time into view once, without fighting later scrolling by the user
+    if (this.zoomedDay === null && !this.hasScrolledToNow && this.config.showNowIndicator) {
+      const [now] = this.getNowPositions(axis);
+      if (now) {
+        this.hasScrolledToNow = true;
+        setTimeout(() => this.scrollToAxisMinutes(now.minutes), 0);
+      }
+    }
+
+    if (this.zoomedDay !== null) {
+      const day = this.zoomedDay;
+      const firstEventMinutes = Math.min(...projectEventsToAxis(this.getWeekEvents(), axis, this.config.firstDayOfWeek)
+        .filter(segment => segment.day === day)
+        .map(segment => segment.axisStartMinutes));
+      const targetMinutes = this.pendingScrollMinutes ?? firstEventMinutes;
+      this.pendingScrollMinutes = null;
+      if (Number.isFinite(targetMinutes)) {
+        setTimeout(() => this.scrollToAxisMinutes(targetMinutes), 0);
       }
+    }
+  }
+
+  /**
+   * Part of the time axis to render: the viewport of the schedule scroll container plus an overscan margin
+   * The axis length is worked out the way the styles size it, so it is known before the grid is rendered.
+   * @param overscan - Margin rendered before and after the viewport, in viewport lengths
+   * @returns The range, or null when the whole axis fits the viewport
+   * @private
+   */
+  private getRenderedWindow(overscan: number): AxisRange | null {
+    const isHorizontal = this.config.orientation === ScheduleOrientation.Horizontal;
+    const { headerHeight, crossAxisWidth } = this.getBandSizes();
+    const scroll = this.container.querySelector<HTMLElement>('.schedule-scroll');
+    const viewportSize = isHorizontal
+      ? scroll?.clientWidth ?? this.container.clientWidth - parseFloat(crossAxisWidth)
+      : scroll?.clientHeight ?? this.container.clientHeight - parseFloat(headerHeight);
+    if (this.zoomedDay === null || viewportSize <= 0) return null;
+
+    // Zoomed days get fixed-size slots and scroll
+    const axis = this.getVisibleRange();
+    const slotUnits = (axis.endMinutes - axis.startMinutes) / this.config.timeSlotInterval!;
+    const axisSize = slotUnits * (isHorizontal ? ZOOMED_SLOT_MIN_WIDTH : ZOOMED_SLOT_HEIGHT);
+    if (axisSize <= viewportSize) return null;
+
+    // Right-to-left content scrolls with negative scrollLeft
+    const scrollOffset = scroll ? Math.abs(isHorizontal ? scroll.scrollLeft : scroll.scrollTop) : 0;
+    return getViewportAxisRange(axis, scrollOffset, viewportSize, axisSize, viewportSize * overscan);
+  }
 
-      return !event.startTime.isBefore(startTime);
+  /**
+   * Re-render on the next animation frame when the viewport has left the rendered part of the time axis
+   * @private
+   */
+  private requestWindowCheck(): void {
+    if (this.windowCheckFrame !== null || this.renderedWindow === null) return;
+    this.windowCheckFrame = requestAnimationFrame(() => {
+      this.windowCheckFrame = null;
+      const rendered = this.renderedWindow;
+      if (rendered === null) return;
+
+      const visible = this.getRenderedWindow(0);
+      if (!visible || visible.startMinutes < rendered.startMinutes || visible.endMinutes > rendered.endMinutes) {
+        this.updateDOM();
+      }
     });
+  }
+
+  private renderClassicView(): string {
+    const visibleEvents = projectEventsToAxis(this.getWeekEvents(), this.getVisibleRange(), this.config.firstDayOfWeek)
+      .filter(segment => this.config.visibleDays!.includes(segment.day));
 
     const axisConfiguration = this.getAxisConfiguration();
     const headerAxis = this.createAxis(ScheduleOrientation.Horizontal, axisConfiguration.headerAxisData);
@@ -295,7 +404,10 @@ export class WeeklySchedule {
   }
 
   private renderMobileView(): string {
-    const eventsByDay = groupEventsByDay(this.events);
+    const eventsByDay = groupEventsByDay(this.getWeekEvents());
+    const formatTime = createTimeFormatter(this.config);
+    const translate = createTranslator(this.config);
+    const dayNames = resolveDayNames(this.config);
     let dayBlocksHtml = '';
 
     const daysToShow = this.originalVisibleDays || this.config.visibleDays || WORK_WEEK_DAYS;
@@ -304,21 +416,21 @@ export class WeeklySchedule {
 
       dayBlocksHtml += `
         <div class="mobile-day-block">
-          <div class="mobile-day-header">${getDayName(day, this.config.dayNameTranslations)}</div>
+          <div class="mobile-day-header">${getDayName(day, dayNames)}${createDateLabelHTML(this.getDateLabel(day))}</div>
           <div class="mobile-event-list">
             ${dayEvents.map(event => {
               const eventClass = event.className ? ` ${event.className}` : '';
               const eventStyle = event.style ? ` style="${event.style}"` : '';
               return `
               <div class="mobile-event${eventClass}" data-event-id="${event.id}"${eventStyle}>
-                <div class="mobile-event-time">${event.startTime.toString()}</div>
+                <div class="mobile-event-time">${formatTime(event.startTime)}</div>
                 <div class="mobile-event-details">
                   <div class="mobile-event-title">${event.title}</div>
-                  <div class="mobile-event-duration">${event.startTime.toString()} - ${event.endTime.toString()}</div>
+                  <div class="mobile-event-duration">${formatTime(event.startTime)} - ${formatTime(event.endTime)}</div>
                 </div>
               </div>
             `;
-            }).join('') || `<div class="mobile-no-events">${this.config.translations?.[TranslationKey.mobileNoEvents] ?? 'No events for this day.'}</div>`}
+            }).join('') || `<div class="mobile-no-events">${translate(TranslationKey.mobileNoEvents)}</div>`}
           </div>
         </div>
       `;
@@ -337,48 +449,106 @@ export class WeeklySchedule {
     // return `<button type="button" class="zoom-reset-btn" data-action="unzoom" aria-label="Back to week" role="button" tabindex="0"><span class="zoom-reset-icon${iconClass}" aria-hidden="true">${unzoomIcon}</span></button>`;
   }
 
+  /**
+   * Time axis times in the secondary time zone, undefined when none is configured
+   */
+  private getSecondaryAxisTimes(slotMinutes: number[]): TimeOnly[] | undefined {
+    if (!this.config.secondaryTimeZone) return undefined;
+
+    return getSecondaryAxisTimes(
+      slotMinutes,
+      this.config.timeZone!,
+      this.config.secondaryTimeZone,
+      this.config.visibleDays!,
+      this.config.weekStartDate,
+      this.config.firstDayOfWeek
+    );
+  }
+
   private getAxisConfiguration(): AxisConfiguration {
 
     const isHorizontal = this.config.orientation === ScheduleOrientation.Horizontal;
-    const timeSlots = generateTimeSlots(this.config.startHour!, this.config.endHour!, this.config.timeSlotInterval!);
+    const axis = this.getVisibleRange();
+    const interval = this.config.timeSlotInterval!;
+    const timeSlots = generateTimeSlots(axis, interval);
+    const slots = getAxisSlots(axis, interval);
+    const slotSizes = slots.map(slot => (slot.endMinutes - slot.startMinutes) / interval);
 
     if (this.zoomedDay !== null && !this.originalVisibleDays) {
       this.originalVisibleDays = [...(this.config.visibleDays || WORK_WEEK_DAYS)];
     }
     
     const daysForHeader = this.originalVisibleDays || this.config.visibleDays!;
+    const dayNames = resolveDayNames(this.config);
+    const translate = createTranslator(this.config);
+    
+    const resources = this.config.resources ?? [];
     
     let daysHtml: string;
     if (this.zoomedDay !== null) {
-      daysHtml = createZoomedDayHeaderHTML(
+      daysHtml = createDayHeaderGroupHTML(createZoomedDayHeaderHTML(
         this.zoomedDay,
         daysForHeader,
-        this.config.dayNameTranslations,
+        dayNames,
         this.config.orientation,
-        this.config.icons as IconConfig
-      );
+        this.config.icons as IconConfig,
+        this.getDateLabel(this.zoomedDay),
+        translate,
+        this.config.direction
+      ), resources);
     } else {
-      daysHtml = daysForHeader.map(day => createDayHeaderHTML(day, this.config.dayNameTranslations, this.zoomedDay, this.config.icons as IconConfig)).join('');
+      daysHtml = daysForHeader.map(day => createDayHeaderGroupHTML(createDayHeaderHTML(
+        day,
+        dayNames,
+        this.zoomedDay,
+        this.config.icons as IconConfig,
+        this.getDateLabel(day),
+        translate
+      ), resources)).join('');
     }
     
-    const timeSlotsHtml = timeSlots.map(time => createTimeLabelHTML(time)).join('');
+    const formatTime = createTimeFormatter(this.config);
+    const secondaryTimes = this.getSecondaryAxisTimes(slots.map(slot => slot.startMinutes));
+    const labelInterval = this.config.labelInterval ?? interval;
+    // Slots outside the rendered window are replaced by spacers of the same size
+    const rendered = this.renderedWindow;
+    const firstSlot = rendered ? slots.filter(slot => slot.endMinutes <= rendered.startMinutes).length : 0;
+    const endSlot = rendered ? slots.filter(slot => slot.startMinutes < rendered.endMinutes).length : slots.length;
+    const timeSlotsHtml = createTimeAxisSpacerHTML(slotSizes.slice(0, firstSlot)) +
+      timeSlots.slice(firstSlot, endSlot).map((time, offset) => {
+        const i = firstSlot + offset;
+        return createTimeLabelHTML(
+          time,
+          formatTime,
+          secondaryTimes?.[i],
+          isLabeledSlot(slots[i].startMinutes, axis, labelInterval),
+          slotSizes[i]
+        );
+      }).join('') +
+      createTimeAxisSpacerHTML(slotSizes.slice(endSlot));
+    const slotAxis = {
+      slotUnits: (axis.endMinutes - axis.startMinutes) / interval,
+      slotLead: slotSizes[0] ?? 1,
+      timeTracks: slotSizes.map(size => `minmax(0, ${size}fr)`).join(' ')
+    };
 
+    const bandSizes = this.getBandSizes();
     if (isHorizontal) {
       const config = {
-        headerHeight: '40px',
-        crossAxisWidth: '100px',
+        ...bandSizes,
         numColumns: timeSlots.length,
         numRows: this.config.visibleDays!.length,
+        ...slotAxis,
         headerAxisData: timeSlotsHtml,
         crossAxisData: daysHtml
       };
       return config;
     } else {
       const config = {
-        headerHeight: '40px',
-        crossAxisWidth: '60px',
+        ...bandSizes,
         numColumns: this.config.visibleDays!.length,
         numRows: timeSlots.length,
+        ...slotAxis,
         headerAxisData: daysHtml,
         crossAxisData: timeSlotsHtml
       };
@@ -386,6 +556,66 @@ export class WeeklySchedule {
     }
   }
 
+  /**
+   * Height of the header band and width of the side band
+   * Resource headers sit under the day names (next to them when horizontal).
+   * @private
+   */
+  private getBandSizes(): Pick<AxisConfiguration, 'headerHeight' | 'crossAxisWidth'> {
+    const hasResources = (this.config.resources?.length ?? 0) > 0;
+    return this.config.orientation === ScheduleOrientation.Horizontal
+      ? { headerHeight: '40px', crossAxisWidth: hasResources ? '180px' : '100px' }
+      : { headerHeight: hasResources ? '68px' : '40px', crossAxisWidth: '60px' };
+  }
+
+  /**
+   * Events to lay out for the displayed week, converted to the schedule's time zone
+   * In date-anchored mode, dated events outside the week are dropped and the rest placed on their weekday
+   */
+  private getWeekEvents(): ScheduleEvent[] {
+    const weekStart = this.config.weekStartDate;
+    const events = convertEventsToTimeZone(this.events, this.config.timeZone!, weekStart, this.config.firstDayOfWeek);
+    return weekStart ? resolveWeekEvents(events, weekStart, this.config.firstDayOfWeek) : events;
+  }
+
+  /**
+   * Time range covered by the time axis: the configured one, widened to fit all events with autoFitHours
+   */
+  private getVisibleRange(): AxisRange {
+    const range = resolveVisibleRange(this.config);
+    return this.config.autoFitHours
+      ? fitRangeToEvents(
+          this.getWeekEvents(),
+          this.config.visibleDays!,
+          range,
+          this.config.firstDayOfWeek,
+          this.config.timeSlotInterval
+        )
+      : range;
+  }
+
+  /**
+   * Title of overflow indicators: overflowIndicatorFormat, else the translated "+N more"
+   */
+  private getOverflowIndicatorFormat(): (overflowEvents: number) => string {
+    if (this.config.overflowIndicatorFormat) {
+      return this.config.overflowIndicatorFormat;
+    }
+    const translate = createTranslator(this.config);
+    return count => translate(TranslationKey.overflowMore, { count });
+  }
+
+  /**
+   * Formatted date shown next to a day name, or undefined when not date-anchored
+   */
+  private getDateLabel(day: DayOfWeek): string | undefined {
+    const weekStart = this.config.weekStartDate;
+    if (!weekStart) return undefined;
+
+    const format = this.config.formatDate ?? ((date: Date) => formatHeaderDate(date, this.config.locale));
+    return format(getDateForDay(weekStart, day, this.config.firstDayOfWeek));
+  }
+
   private createAxis(axisDirection: ScheduleOrientation, axisContent: string): string {
     const axisClass = axisDirection === ScheduleOrientation.Horizontal
       ? 'axis-horizontal'
@@ -399,202 +629,218 @@ export class WeeklySchedule {
    * @private
    */
   private createEventsGrid(events: ScheduleEvent[]): string {
+    const axis = this.getVisibleRange();
     const eventsByDay = groupEventsByDay(events);
-    const laneMaps = new Map<DayOfWeek, Map<string, LaneInfo>>();
-    let eventsHtml = '';
+    const resources = this.config.resources ?? [];
+    const laneMaps = new Map<DayOfWeek, Map<ScheduleEvent, LaneInfo>>();
+    let eventsHtml = this.createBackgroundsHTML(axis) + this.createResourceDividersHTML();
+    this.overflowIndicators.clear();
 
     // If zoomed, render all events without compression
     if (this.zoomedDay !== null) {
       for (const [day, dayEvents] of eventsByDay.entries()) {
-        laneMaps.set(day, assignLanes(dayEvents));
+        laneMaps.set(day, assignResourceLanes(dayEvents, resources, this.config.laneLayout));
       }
-      events.forEach(event => {
-        const laneInfo = laneMaps.get(event.day)?.get(event.id);
-        eventsHtml += this.createPositionedEvent(event, laneInfo);
+      // Lanes are assigned from all events, so they don't change as events scroll in and out
+      events.filter(this.createRenderedEventFilter()).forEach(event => {
+        const laneInfo = laneMaps.get(event.day)?.get(event);
+        eventsHtml += this.createPositionedEvent(event, axis, laneInfo);
       });
-      return `<div class="events-grid">${eventsHtml}</div>`;
+      return `<div class="events-grid">${eventsHtml}${this.createNowIndicatorsHTML(axis)}</div>`;
     }
 
-    // Normal mode: compress based on lane assignment with priority-based lane swapping
+    // Normal mode: collapse lanes that don't fit into overflow indicators (per resource),
+    // except on days expanded by an overflow indicator click
     const compressedEvents: ScheduleEvent[] = [];
+    const maxVisibleLanes = this.getMaxVisibleLanes();
+    const createCluster = createOverflowClusterFactory(this.events);
     for (const [day, dayEvents] of eventsByDay.entries()) {
-      const dayLaneMap = assignLanes(dayEvents);
-      
-      // Determine visibility threshold based on total lanes
-      const maxLaneIndex = Math.max(0, ...Array.from(dayLaneMap.values()).map(info => info.laneIndex));
-
-      // If we have 3 or fewer lanes (indices 0, 1, 2), show all of them.
-      // If we have more (index 3+), show only 2 (indices 0, 1) + overflow.
-      const visibleThreshold = maxLaneIndex <= 2 ? 3 : 2;
-
-      // Group events by lane index
-      const eventsByLane = new Map<number, ScheduleEvent[]>();
-      dayEvents.forEach(ev => {
-        const info = dayLaneMap.get(ev.id);
-        if (info) {
-          if (!eventsByLane.has(info.laneIndex)) {
-            eventsByLane.set(info.laneIndex, []);
-          }
-          eventsByLane.get(info.laneIndex)!.push(ev);
-        }
-      });
+      const compressedDayEvents = this.expandedDays.has(day)
+        ? dayEvents
+        : groupEventsByResource(dayEvents, resources)
+          .flatMap(group => compressDayEvents(day, group, this.getOverflowIndicatorFormat(), maxVisibleLanes, createCluster));
+      compressedEvents.push(...compressedDayEvents);
+      laneMaps.set(day, assignResourceLanes(compressedDayEvents, resources, this.config.laneLayout));
+    }
+    compressedEvents
+      .filter(isOverflowIndicator)
+      .forEach(indicator => this.overflowIndicators.set(indicator.overflowCluster.id, indicator));
 
-      // Calculate max priority for each lane
-      const lanePriorities = new Map<number, number>();
-      for (const [laneIndex, laneEvents] of eventsByLane.entries()) {
-        const maxPriority = Math.max(...laneEvents.map(ev => ev.lanePriority ?? 0));
-        lanePriorities.set(laneIndex, maxPriority);
-      }
+    compressedEvents.filter(this.createRenderedEventFilter()).forEach(event => {
+      const laneInfo = laneMaps.get(event.day)?.get(event);
+      eventsHtml += this.createPositionedEvent(event, axis, laneInfo);
+    });
 
-      // Determine which lanes are visible vs hidden based on threshold
-      const visibleLaneIndices = new Set<number>();
-      const hiddenLaneIndices = new Set<number>();
-      for (const laneIndex of eventsByLane.keys()) {
-        if (laneIndex < visibleThreshold) {
-          visibleLaneIndices.add(laneIndex);
-        } else {
-          hiddenLaneIndices.add(laneIndex);
-        }
-      }
+    return `<div class="events-grid">${eventsHtml}${this.createNowIndicatorsHTML(axis)}</div>`;
+  }
 
-      // Check if any hidden lane should swap with a visible lane based on priority
-      // Find the hidden lane with highest priority
-      let highestHiddenPriority = -Infinity;
-      let highestHiddenLane = -1;
-      for (const laneIndex of hiddenLaneIndices) {
-        const priority = lanePriorities.get(laneIndex) ?? 0;
-        if (priority > highestHiddenPriority) {
-          highestHiddenPriority = priority;
-          highestHiddenLane = laneIndex;
-        }
-      }
+  /**
+   * Predicate keeping the events inside the rendered part of the time axis
+   * The focused event is kept as well, so scrolling it out of view doesn't lose keyboard focus.
+   * @private
+   */
+  private createRenderedEventFilter(): (event: ScheduleEvent) => boolean {
+    const rendered = this.renderedWindow;
+    if (!rendered) return () => true;
+
+    const focused = document.activeElement?.closest('.events-grid .event');
+    const focusedId = focused && this.container.contains(focused) ? focused.getAttribute('data-event-id') : null;
+    return event => event.id === focusedId ||
+      (getAxisEndMinutes(event) > rendered.startMinutes && getAxisStartMinutes(event) < rendered.endMinutes);
+  }
 
-      // Find the visible lane with lowest priority (or last visible lane if equal)
-      if (highestHiddenLane >= 0 && highestHiddenPriority > 0) {
-        let lowestVisiblePriority = Infinity;
-        let lowestVisibleLane = -1;
-        for (const laneIndex of visibleLaneIndices) {
-          const priority = lanePriorities.get(laneIndex) ?? 0;
-          // Use <= to prefer higher lane indices (last visible lane) when priorities are equal
-          if (priority < lowestVisiblePriority || (priority <= lowestVisiblePriority && laneIndex > lowestVisibleLane)) {
-            lowestVisiblePriority = priority;
-            lowestVisibleLane = laneIndex;
-          }
-        }
+  /**
+   * Lanes a day shows side by side before the rest collapse into overflow indicators
+   * The grid isn't rendered yet, so the lane space is estimated from the container size.
+   * @private
+   */
+  private getMaxVisibleLanes(): number {
+    const { headerHeight, crossAxisWidth } = this.getBandSizes();
+    const isHorizontal = this.config.orientation === ScheduleOrientation.Horizontal;
+    const gridSize = isHorizontal
+      ? this.container.clientHeight - parseFloat(headerHeight)
+      : this.container.clientWidth - parseFloat(crossAxisWidth);
+    const dayCount = Math.max(1, this.config.visibleDays!.length);
+    const resourceCount = Math.max(1, this.config.resources?.length ?? 0);
+    return getVisibleLaneLimit(this.config, gridSize / dayCount / resourceCount);
+  }
 
-        // Swap if hidden lane has higher priority than lowest visible lane
-        if (lowestVisibleLane >= 0 && highestHiddenPriority > lowestVisiblePriority) {
-          visibleLaneIndices.delete(lowestVisibleLane);
-          visibleLaneIndices.add(highestHiddenLane);
-          hiddenLaneIndices.delete(highestHiddenLane);
-          hiddenLaneIndices.add(lowestVisibleLane);
-        }
+  /**
+   * Shaded background ranges for the events grid, rendered before (beneath) the events
+   * @param axis - Visible part of the time axis
+   * @private
+   */
+  private createBackgroundsHTML(axis: AxisRange): string {
+    const visibleDays = this.config.visibleDays!;
+    return projectBackgroundsToAxis(this.config.backgrounds ?? [], axis, visibleDays)
+      .map(segment => createBackgroundHTML(
+        segment,
+        visibleDays.indexOf(segment.day),
+        axis,
+        this.config.orientation!
+      )).join('');
+  }
+
+  /**
+   * Dividers between the resources of every visible day, empty without resources
+   * @private
+   */
+  private createResourceDividersHTML(): string {
+    const resourceCount = this.config.resources?.length ?? 0;
+    let html = '';
+    this.config.visibleDays!.forEach((_day, dayIndex) => {
+      for (let resourceIndex = 1; resourceIndex < resourceCount; resourceIndex++) {
+        html += createResourceDividerHTML(dayIndex, resourceIndex, resourceCount, this.config.orientation!);
       }
+    });
+    return html;
+  }
 
-      // Split events into visible and hidden based on final lane visibility
-      const visibleDayEvents: ScheduleEvent[] = [];
-      const hiddenDayEvents: ScheduleEvent[] = [];
-      
-      dayEvents.forEach(ev => {
-        const info = dayLaneMap.get(ev.id);
-        if (info && visibleLaneIndices.has(info.laneIndex)) {
-          visibleDayEvents.push(ev);
-        } else {
-          hiddenDayEvents.push(ev);
-        }
-      });
+  /**
+   * Current time markers for the events grid, empty when showNowIndicator is off or today is not shown
+   * @param axis - Visible part of the time axis
+   * @private
+   */
+  private createNowIndicatorsHTML(axis: AxisRange): string {
+    if (!this.config.showNowIndicator) return '';
+
+    const visibleDays = this.config.visibleDays!;
+    return this.getNowPositions(axis).map(position => createNowIndicatorHTML(
+      visibleDays.indexOf(position.day),
+      timeToAxisOffset(position.minutes, axis),
+      this.config.orientation!
+    )).join('');
+  }
 
-      // 3. Cluster hidden events and create overflow indicators
-      if (hiddenDayEvents.length > 0) {
-          // Sort hidden by start time for clustering
-          hiddenDayEvents.sort((a, b) => a.startTime.toMinutes() - b.startTime.toMinutes());
-          
-          let currentCluster: ScheduleEvent[] = [hiddenDayEvents[0]];
-          let currentClusterEnd = hiddenDayEvents[0].endTime.toMinutes();
-          
-          const addOverflowForCluster = (cluster: ScheduleEvent[]) => {
-             const earliest = cluster.reduce((min, e) => (e.startTime.toMinutes() < min.startTime.toMinutes() ? e : min), cluster[0]);
-             const latest = cluster.reduce((max, e) => (e.endTime.toMinutes() > max.endTime.toMinutes() ? e : max), cluster[0]);
-             const hiddenCount = cluster.length;
-             const title = this.config.overflowIndicatorFormat ? this.config.overflowIndicatorFormat(hiddenCount) : `+${hiddenCount} more`;
-
-             const overflowEvent: ScheduleEvent = {
-                id: `overflow-${day}-${earliest.id}`,
-                day,
-                startTime: earliest.startTime,
-                endTime: latest.endTime,
-                title,
-                description: undefined,
-                className: 'event-overflow-indicator'
-             };
-             compressedEvents.push(overflowEvent);
-          };
-
-          for (let i = 1; i < hiddenDayEvents.length; i++) {
-              const ev = hiddenDayEvents[i];
-              const start = ev.startTime.toMinutes();
-              const end = ev.endTime.toMinutes();
-              
-              if (start < currentClusterEnd) {
-                  currentCluster.push(ev);
-                  currentClusterEnd = Math.max(currentClusterEnd, end);
-              } else {
-                  addOverflowForCluster(currentCluster);
-                  currentCluster = [ev];
-                  currentClusterEnd = end;
-              }
-          }
-          addOverflowForCluster(currentCluster);
-      }
-      
-      compressedEvents.push(...visibleDayEvents);
-      
-      // Re-assign lanes for the compressed set of events
-      const compressedDayEvents = compressedEvents.filter(e => e.day === day);
-      laneMaps.set(day, assignLanes(compressedDayEvents));
-    }
+  /**
+   * Days and axis minutes of the current time on the displayed week
+   * @param axis - Visible part of the time axis
+   * @private
+   */
+  private getNowPositions(axis: AxisRange): NowPosition[] {
+    return getNowPositions(
+      this.config.clock!(),
+      this.config.timeZone!,
+      axis,
+      this.config.visibleDays!,
+      this.config.weekStartDate,
+      this.config.firstDayOfWeek
+    );
+  }
 
-    compressedEvents.forEach(event => {
-      const laneInfo = laneMaps.get(event.day)?.get(event.id);
-      eventsHtml += this.createPositionedEvent(event, laneInfo);
-    });
+  /**
+   * Move the current time markers without re-rendering the schedule
+   * @private
+   */
+  private updateNowIndicator(): void {
+    const grid = this.container.querySelector<HTMLElement>('.events-grid');
+    if (!grid) return;
+
+    grid.querySelectorAll('.now-indicator').forEach(el => el.remove());
+    grid.insertAdjacentHTML('beforeend', this.createNowIndicatorsHTML(this.getVisibleRange()));
+  }
 
-    return `<div class="events-grid">${eventsHtml}</div>`;
+  /**
+   * Update the now indicator at the start of every minute of the configured clock
+   * @private
+   */
+  private scheduleNowIndicatorUpdate(): void {
+    if (this.nowIndicatorTimeout) {
+      clearTimeout(this.nowIndicatorTimeout);
+      this.nowIndicatorTimeout = null;
+    }
+    if (!this.config.showNowIndicator) return;
+
+    const msPerMinute = 60 * 1000;
+    const delay = msPerMinute - (this.config.clock!().getTime() % msPerMinute);
+    this.nowIndicatorTimeout = setTimeout(() => {
+      this.updateNowIndicator();
+      this.scheduleNowIndicatorUpdate();
+    }, delay);
   }
 
   /**
    * Create positioned event HTML with grid styling (relative to events grid)
    * Uses absolute positioning for fractional time offsets
    * @param event - Event to position
+   * @param axis - Visible part of the time axis
    * @param laneInfo - Optional lane assignment for overlapping events
    * @private
    */
-  private createPositionedEvent(event: ScheduleEvent, laneInfo?: LaneInfo): string {
+  private createPositionedEvent(event: ScheduleEvent, axis: AxisRange, laneInfo?: LaneInfo): string {
     const layout = calculateEventPosition(
       event,
-      this.config.startHour!,
-      this.config.timeSlotInterval!,
+      axis,
       this.config.visibleDays!,
       this.config.orientation!,
       laneInfo,
       this.config.eventGap
     );
 
-    const isOverflowIndicator = event.className?.includes('event-overflow-indicator');
     const renderContext: RenderContext = { 
       laneInfo, 
       orientation: this.config.orientation!, 
-      isZoomed: this.zoomedDay !== null 
+      isZoomed: this.zoomedDay !== null,
+      formatTime: createTimeFormatter(this.config),
+      translate: createTranslator(this.config)
     };
-    const eventHTML = isOverflowIndicator 
-    ? createOverflowIndicatorHTML(event, laneInfo) 
+    const eventHTML = isOverflowIndicator(event)
+    ? createOverflowIndicatorHTML(
+        event,
+        { ...renderContext, overflowCluster: event.overflowCluster },
+        this.config.overflowBehavior,
+        this.config.renderOverflow
+      )
     : createEventHTML(event, renderContext, this.config.renderEvent);
 
     // Base grid positioning (integer cell positions)
     const gridStyle = `grid-row: ${layout.gridRowStart} / ${layout.gridRowEnd}; grid-column: ${layout.gridColumnStart} / ${layout.gridColumnEnd};`;
 
-    const safeId = event.id.replace(/[^a-zA-Z0-9-_]/g, '_');
-    const transitionStyle = `view-transition-name: event-${safeId}; view-transition-class: event;`;
+    // Indicators get their own prefix, so no event id can produce the same name
+    const transitionName = isOverflowIndicator(event)
+      ? `overflow-${event.overflowCluster.id}`
+      : `event-${getSegmentKey(event).replace(/[^a-zA-Z0-9-_]/g, '_')}`;
+    const transitionStyle = `view-transition-name: ${transitionName}; view-transition-class: event;`;
 
     // Add absolute positioning for fractional offsets
     // Positioning values are calculated in calculateEventPosition based on orientation
@@ -603,12 +849,13 @@ export class WeeklySchedule {
     
     // Determine if gap should be applied (only for events in lanes with gap configured)
     // Don't apply gap to the last event in a lane (no gap after the last element)
-    const isLastInLane = laneInfo && laneInfo.laneIndex === laneInfo.totalLanes - 1;
+    const isLastInLane = laneInfo && laneInfo.laneIndex + (laneInfo.laneSpan ?? 1) === laneInfo.totalLanes;
     const shouldApplyGap = layout.gap !== undefined && laneInfo && laneInfo.totalLanes > 1 && !isLastInLane;
     const gapValue = shouldApplyGap ? (typeof layout.gap === 'number' ? `${layout.gap}px` : layout.gap) : undefined;
     
+    // Offsets run from the start edge of the cell, which is its right edge in right-to-left layouts
     if (layout.leftPercent !== undefined) {
-      positioningStyle += ` left: ${layout.leftPercent}%;`;
+      positioningStyle += ` inset-inline-start: ${layout.leftPercent}%;`;
     }
     if (layout.widthPercent !== undefined) {
       // Gap applies to width in vertical orientation (lane dimension)
@@ -650,6 +897,11 @@ export class WeeklySchedule {
 
 
   private attachEventListeners(): void {
+    this.attachHoverListeners();
+
+    // Scroll events don't bubble, listen in the capture phase for the inner scroll container
+    this.container.addEventListener('scroll', this.handleScroll, true);
+
     this.container.addEventListener('click', (e: Event) => {
       const target = e.target as HTMLElement;
 
@@ -699,20 +951,11 @@ export class WeeklySchedule {
         return;
       }
 
-      // Event click dispatch or overflow zoom
-      const eventEl = target.closest('.event');
+      // Event click dispatch or overflow indicator behavior
+      const eventEl = target.closest<HTMLElement>('.event');
       if (eventEl) {
-        // Overflow indicator: zoom to that day and scroll to the cluster's first event
-        if (eventEl.classList.contains('event-overflow-indicator')) {
-          const id = eventEl.getAttribute('data-event-id') || '';
-          const parts = id.split('-');
-          const dayNum = Number(parts[1]);
-          const earliestId = parts.slice(2).join('-');
-          if (!isNaN(dayNum)) {
-            // Set pending scroll to the earliest event in the cluster after zoom
-            this.pendingScrollTargetId = earliestId || null;
-            this.zoomToDay(dayNum as DayOfWeek);
-          }
+        if (eventEl.hasAttribute('data-overflow-id')) {
+          this.handleOverflowClick(eventEl);
           return;
         }
 
@@ -745,106 +988,191 @@ export class WeeklySchedule {
         return;
       }
     });
+
+    this.container.addEventListener('keydown', this.handleKeyDown);
   }
 
   /**
-   * Clean up hover state before re-rendering
+   * Overflow indicators are buttons: Enter and Space act like a click
+   * @private
+   */
+  private onKeyDown(e: KeyboardEvent): void {
+    if (e.key !== 'Enter' && e.key !== ' ') return;
+    const indicatorEl = (e.target as HTMLElement).closest<HTMLElement>('[data-overflow-id]');
+    if (indicatorEl) {
+      e.preventDefault();
+      this.handleOverflowClick(indicatorEl);
+    }
+  }
+
+  /**
+   * Fire schedule-overflow-click, then reveal the hidden events the way overflowBehavior says
+   * (unless the host called preventDefault()). Zoom scrolls the zoomed day to the cluster's first event; Popover lists the events next to
+   * the indicator and fires schedule-event-click for the one picked; Expand shows all lanes of the day.
+   * @param indicatorEl - Element of the overflow indicator
+   * @private
+   */
+  private handleOverflowClick(indicatorEl: HTMLElement): void {
+    const indicator = this.overflowIndicators.get(indicatorEl.getAttribute('data-overflow-id') ?? '');
+    if (!indicator) return;
+    const cluster = indicator.overflowCluster;
+
+    const proceed = this.container.dispatchEvent(new CustomEvent<ScheduleOverflowClickDetail>('schedule-overflow-click', {
+      detail: { cluster },
+      bubbles: true,
+      cancelable: true
+    }));
+    if (!proceed) return;
+
+    switch (this.config.overflowBehavior) {
+      case OverflowBehavior.Popover:
+        this.closeOverflowPopover?.();
+        this.closeOverflowPopover = openOverflowPopover({
+          container: this.container,
+          anchorRect: indicatorEl.getBoundingClientRect(),
+          cluster,
+          events: indicator.hiddenSegments,
+          formatTime: createTimeFormatter(this.config),
+          translate: createTranslator(this.config),
+          returnFocus: indicatorEl,
+          onSelect: eventId => {
+            const scheduleEvent = this.allEvents.find(ev => ev.id === eventId);
+            if (!scheduleEvent) return;
+            this.container.dispatchEvent(new CustomEvent('schedule-event-click', {
+              detail: { event: scheduleEvent },
+              bubbles: true,
+              cancelable: true
+            }));
+          }
+        });
+        break;
+      case OverflowBehavior.Expand:
+        this.expandedDays.add(cluster.day);
+        this.render();
+        break;
+      default:
+        // Set pending scroll to the earliest event in the cluster after zoom
+        this.pendingScrollMinutes = getAxisStartMinutes(indicator);
+        this.zoomToDay(cluster.day);
+    }
+  }
+
+  /**
+   * Remove the hover listeners and clean up hover state when the component is destroyed
    */
   private cleanupHoverListeners(): void {
+    this.container.removeEventListener('mouseover', this.handleMouseOver);
+    this.container.removeEventListener('mouseout', this.handleMouseOut);
     if (this.hoverTimeout !== null) {
       clearTimeout(this.hoverTimeout);
       this.hoverTimeout = null;
     }
-
-    // Cancel any pending attachHoverListeners timeout to prevent duplicate listeners
-    if (this.attachHoverListenersTimeout !== null) {
-      clearTimeout(this.attachHoverListenersTimeout);
-      this.attachHoverListenersTimeout = null;
-    }
-
-    // Reset hover state (element is already removed from DOM via innerHTML, so listeners are automatically cleaned up)
     this.hoveredElement = null;
   }
 
   /**
-   * Attach hover listeners to event elements
+   * Attach hover listeners for event elements
+   * Delegated to the container, so they keep working for elements added by later renders.
    */
   private attachHoverListeners(): void {
-    const scheduleRoot = this.container;
-    if (scheduleRoot?.classList.contains('mobile')) {
-      return;
-    }
+    this.container.addEventListener('mouseover', this.handleMouseOver);
+    this.container.addEventListener('mouseout', this.handleMouseOut);
+  }
 
-    const eventElements = this.container.querySelectorAll<HTMLElement>('.event:not(.event-overflow-indicator)');
+  /**
+   * Event element a hover event happened in, null outside events and in the mobile view
+   * @private
+   */
+  private getHoverTarget(target: EventTarget | null): HTMLElement | null {
+    if (!(target instanceof Element) || this.container.classList.contains('mobile')) {
+      return null;
+    }
+    return target.closest<HTMLElement>('.events-grid .event:not([data-overflow-id])');
+  }
 
-    eventElements.forEach(element => {
-      const enterHandler = (_e: MouseEvent) => {
-        if (this.hoverTimeout !== null) {
-          clearTimeout(this.hoverTimeout);
-          this.hoverTimeout = null;
-        }
+  /**
+   * Fire schedule-event-hover when the pointer enters an event
+   * @private
+   */
+  private onMouseOver(e: MouseEvent): void {
+    const element = this.getHoverTarget(e.target);
+    if (!element) {
+      return;
+    }
 
-        if (this.hoveredElement === element) {
-          return;
-        }
+    if (this.hoverTimeout !== null) {
+      clearTimeout(this.hoverTimeout);
+      this.hoverTimeout = null;
+    }
 
-        this.hoveredElement = element;
+    if (this.hoveredElement === element) {
+      return;
+    }
 
-        const eventId = element.getAttribute('data-event-id');
-        const event = this.allEvents.find(ev => ev.id === eventId);
+    this.hoveredElement = element;
 
-        if (event) {
-          this.container.dispatchEvent(new CustomEvent('schedule-event-hover', {
-            detail: { event, element },
-            bubbles: true,
-            cancelable: true
-          }));
-        }
-      };
+    const eventId = element.getAttribute('data-event-id');
+    const event = this.allEvents.find(ev => ev.id === eventId);
 
-      const leaveHandler = (_e: MouseEvent) => {
-        if (this.hoveredElement !== element) {
-          return;
-        }
+    if (event) {
+      this.container.dispatchEvent(new CustomEvent('schedule-event-hover', {
+        detail: { event, element },
+        bubbles: true,
+        cancelable: true
+      }));
+    }
+  }
 
-        this.hoveredElement = null;
+  /**
+   * Fire schedule-event-hover-end shortly after the pointer leaves an event (unless it comes back)
+   * @private
+   */
+  private onMouseOut(e: MouseEvent): void {
+    const element = this.getHoverTarget(e.target);
+    // Moving between children of the same event is not leaving it
+    if (!element || this.hoveredElement !== element || element.contains(e.relatedTarget as Node | null)) {
+      return;
+    }
 
-        this.hoverTimeout = setTimeout(() => {
-          const eventId = element.getAttribute('data-event-id');
-          const event = this.allEvents.find(ev => ev.id === eventId);
+    this.hoveredElement = null;
 
-          if (event) {
-            this.container.dispatchEvent(new CustomEvent('schedule-event-hover-end', {
-              detail: { event, element },
-              bubbles: true,
-              cancelable: true
-            }));
-          }
-          this.hoverTimeout = null;
-        }, 50);
-      };
+    this.hoverTimeout = setTimeout(() => {
+      const eventId = element.getAttribute('data-event-id');
+      const event = this.allEvents.find(ev => ev.id === eventId);
 
-      element.addEventListener('mouseenter', enterHandler);
-      element.addEventListener('mouseleave', leaveHandler);
-    });
+      if (event) {
+        this.container.dispatchEvent(new CustomEvent('schedule-event-hover-end', {
+          detail: { event, element },
+          bubbles: true,
+          cancelable: true
+        }));
+      }
+      this.hoverTimeout = null;
+    }, 50);
   }
 
   /**
-   * Scroll the schedule scroll container to make the element visible.
+   * Scroll the schedule scroll container to bring a time of the time axis to the start of the viewport
+   * The position is worked out from the events grid, so the time doesn't need rendered content.
+   * @param minutes - Axis minutes to scroll to
    */
-  private scrollToElementInScroll(el: HTMLElement): void {
-    if (!el) return;
-    const root = this.container;
-    const scroll = root?.querySelector<HTMLElement>('.schedule-scroll');
-    if (!scroll) return;
+  private scrollToAxisMinutes(minutes: number): void {
+    const scroll = this.container.querySelector<HTMLElement>('.schedule-scroll');
+    const grid = scroll?.querySelector<HTMLElement>('.events-grid');
+    if (!scroll || !grid) return;
 
-    const elRect = el.getBoundingClientRect();
+    const fraction = Math.min(1, Math.max(0, timeToAxisOffset(minutes, this.getVisibleRange())));
+    const gridRect = grid.getBoundingClientRect();
     const scrollRect = scroll.getBoundingClientRect();
-    const offsetTop = elRect.top - scrollRect.top + scroll.scrollTop;
-    const offsetLeft = elRect.left - scrollRect.left + scroll.scrollLeft;
+    const offsetTop = gridRect.top - scrollRect.top + scroll.scrollTop + fraction * gridRect.height;
+    const offsetLeft = gridRect.left - scrollRect.left + scroll.scrollLeft + fraction * gridRect.width;
+    // Right-to-left content starts at the right edge and scrolls with negative scrollLeft
+    const offsetRight = scrollRect.right - gridRect.right - scroll.scrollLeft + fraction * gridRect.width;
 
     if (this.config.orientation === ScheduleOrientation.Vertical) {
       scroll.scrollTop = Math.max(0, Math.floor(offsetTop));
+    } else if (this.config.direction === ScheduleDirection.RightToLeft) {
+      scroll.scrollLeft = -Math.max(0, Math.floor(offsetRight));
     } else {
       scroll.scrollLeft = Math.max(0, Math.floor(offsetLeft));
     }
@@ -913,21 +1241,12 @@ export class WeeklySchedule {
    * @returns Result indicating success or failure
    */
   updateEvents(events: ScheduleEvent[]): Result<void, Error> {
-    const errors: string[] = [];
-
-    events.forEach((event, index) => {
-      const result = validateEvent(event);
-      if (!result.success) {
-        result.error.forEach(err => {
-          errors.push(`events[${index}].${err.field}: ${err.message}`);
-        });
-      }
-    });
-
-    if (errors.length > 0) {
+    const validation = validateEvents(events);
+    if (!validation.success) {
+      const errorMessages = validation.error.map(e => `${e.field}: ${e.message}`).join(', ');
       return {
         success: false,
-        error: new Error(`Invalid events: ${errors.join(', ')}`)
+        error: new Error(`Invalid events: ${errorMessages}`)
       };
     }
 
@@ -964,6 +1283,7 @@ export class WeeklySchedule {
     }
 
     this.zoomedDay = day;
+    this.expandedDays.clear();
     // Keep full original time range; just restrict visible days
     this.updateConfig({ visibleDays: [day] });
   }
@@ -973,11 +1293,72 @@ export class WeeklySchedule {
   resetZoom(): void {
     if (this.zoomedDay === null) return;
     this.zoomedDay = null;
+    this.expandedDays.clear();
     this.updateConfig({ visibleDays: this.originalVisibleDays });
   }
 
 
 
+  /**
+   * Get the first day (local midnight) of the displayed week
+   * @returns The week start, or null when the schedule is not date-anchored
+   */
+  getWeekStart(): Date | null {
+    return this.config.weekStartDate ? new Date(this.config.weekStartDate.getTime()) : null;
+  }
+
+  /**
+   * Navigate a date-anchored schedule to the following week
+   */
+  nextWeek(): Result<void, Error> {
+    if (!this.config.weekStartDate) {
+      return { success: false, error: new Error('Week navigation requires weekStartDate to be configured') };
+    }
+    return this.goToDate(addDays(this.config.weekStartDate, 7));
+  }
+
+  /**
+   * Navigate a date-anchored schedule to the preceding week
+   */
+  prevWeek(): Result<void, Error> {
+    if (!this.config.weekStartDate) {
+      return { success: false, error: new Error('Week navigation requires weekStartDate to be configured') };
+    }
+    return this.goToDate(addDays(this.config.weekStartDate, -7));
+  }
+
+  /**
+   * Navigate a date-anchored schedule to the week containing a date
+   * Fires `schedule-week-change` when the displayed week changes
+   * @param date - Any date inside the target week
+   */
+  goToDate(date: Date): Result<void, Error> {
+    const previousWeekStart = this.config.weekStartDate;
+    if (!previousWeekStart) {
+      return { success: false, error: new Error('Week navigation requires weekStartDate to be configured') };
+    }
+    if (!isValidDate(date)) {
+      return { success: false, error: new Error('date must be a valid Date instance') };
+    }
+
+    const weekStart = startOfWeek(date, this.config.firstDayOfWeek);
+    if (weekStart.getTime() === previousWeekStart.getTime()) {
+      return { success: true, data: undefined };
+    }
+
+    this.config = { ...this.config, weekStartDate: weekStart };
+    this.expandedDays.clear();
+    this.render();
+
+    this.container.dispatchEvent(new CustomEvent<ScheduleWeekChangeDetail>('schedule-week-change', {
+      detail: { weekStart: new Date(weekStart.getTime()), previousWeekStart },
+      bubbles: true,
+      cancelable: true
+    }));
+
+    return { success: true, data: undefined };
+  }
+
   /**
    * Update configuration and re-render
    * @param newConfig - Partial configuration to merge
@@ -999,21 +1380,50 @@ export class WeeklySchedule {
       };
     }
 
+    const firstDayOfWeek = mergedConfig.firstDayOfWeek ?? DayEnum.Monday;
     this.config = {
-      visibleDays: mergedConfig.visibleDays || [...WORK_WEEK_DAYS],
+      visibleDays: orderDays(mergedConfig.visibleDays || WORK_WEEK_DAYS, firstDayOfWeek),
+      firstDayOfWeek,
       startHour: mergedConfig.startHour ?? 9,
       endHour: mergedConfig.endHour ?? 17,
+      visibleStart: mergedConfig.visibleStart,
+      visibleEnd: mergedConfig.visibleEnd,
       timeSlotInterval: mergedConfig.timeSlotInterval ?? TimeSlotInterval.SixtyMinutes,
+      labelInterval: mergedConfig.labelInterval,
       dayNameTranslations: mergedConfig.dayNameTranslations,
       orientation: mergedConfig.orientation ?? ScheduleOrientation.Vertical,
+      direction: mergedConfig.direction ?? getElementDirection(this.container),
       icons: mergedConfig.icons,
       renderEvent: mergedConfig.renderEvent,
+      renderOverflow: mergedConfig.renderOverflow,
       eventGap: mergedConfig.eventGap,
       overflowIndicatorFormat: mergedConfig.overflowIndicatorFormat,
       translations: mergedConfig.translations,
+      weekStartDate: mergedConfig.weekStartDate ? startOfWeek(mergedConfig.weekStartDate, firstDayOfWeek) : undefined,
+      formatDate: mergedConfig.formatDate,
+      autoFitHours: mergedConfig.autoFitHours ?? false,
+      timeZone: mergedConfig.timeZone ?? getLocalTimeZone(),
+      secondaryTimeZone: mergedConfig.secondaryTimeZone,
+      locale: mergedConfig.locale,
+      timeFormat: mergedConfig.timeFormat,
+      formatTime: mergedConfig.formatTime,
+      showNowIndicator: mergedConfig.showNowIndicator ?? false,
+      clock: mergedConfig.clock ?? (() => new Date()),
+      backgrounds: mergedConfig.backgrounds,
+      resources: mergedConfig.resources,
+      laneLayout: mergedConfig.laneLayout ?? LaneLayout.Equal,
+      maxVisibleLanes: mergedConfig.maxVisibleLanes,
+      minEventWidthPx: mergedConfig.minEventWidthPx,
+      overflowBehavior: mergedConfig.overflowBehavior ?? OverflowBehavior.Zoom,
     } as ScheduleConfig;
 
+    // Keep the week view's days in the configured order; while zoomed only the zoomed day is visible
+    this.originalVisibleDays = this.zoomedDay === null
+      ? [...this.config.visibleDays!]
+      : orderDays(this.originalVisibleDays, firstDayOfWeek);
+
     this.render();
+    this.scheduleNowIndicatorUpdate();
 
     return {
       success: true,
@@ -1026,6 +1436,19 @@ export class WeeklySchedule {
    */
   destroy(): void {
     this.cleanupHoverListeners();
+    this.container.removeEventListener('keydown', this.handleKeyDown);
+    this.container.removeEventListener('scroll', this.handleScroll, true);
+    this.closeOverflowPopover?.();
+    if (this.windowCheckFrame !== null) {
+      cancelAnimationFrame(this.windowCheckFrame);
+      this.windowCheckFrame = null;
+    }
+    if (this.nowIndicatorTimeout) {
+      clearTimeout(this.nowIndicatorTimeout);
+      this.nowIndicatorTimeout = null;
+    }
+    this.renderedWindow = null;
+    this.zoomedDay = null;
     this.container.innerHTML = '';
     // Restore original classes and styles
     this.container.className = this.originalContainerClasses;
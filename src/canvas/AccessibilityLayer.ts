@@ -6,8 +6,9 @@
  */
 
 import type { ScheduleLayout, DayLayout } from './types';
-import type { ScheduleEvent, DayOfWeek } from '../types';
-import { getDayName, type DayNameTranslations } from '../types';
+import type { ScheduleEvent, DayOfWeek, TimeFormatter, Translator } from '../types';
+import { getDayName, ScheduleDirection, TranslationKey, type DayNameTranslations } from '../types';
+import { createTranslator } from '../utils/i18n';
 
 /**
  * Configuration for accessibility layer
@@ -17,7 +18,16 @@ export interface AccessibilityConfig {
   dayNameTranslations?: DayNameTranslations;
   /** Custom event description formatter */
   formatEventDescription?: (event: ScheduleEvent) => string;
-  /** ARIA labels */
+  /** Time formatter for event descriptions (default: "HH:mm") */
+  formatTime?: TimeFormatter;
+  /** Translator for labels and announcements (default: English) */
+  translate?: Translator;
+  /**
+   * ARIA labels
+   * @deprecated Use `translate` (TranslationKey.scheduleLabel and TranslationKey.dayColumnLabel).
+   * When set, scheduleLabel and dayHeaderLabel take precedence over the translator;
+   * eventLabel and timeSlotLabel are ignored.
+   */
   labels?: {
     scheduleLabel?: string;
     dayHeaderLabel?: string;
@@ -26,12 +36,7 @@ export interface AccessibilityConfig {
   };
 }
 
-const DEFAULT_LABELS = {
-  scheduleLabel: 'Weekly schedule',
-  dayHeaderLabel: 'Day column',
-  eventLabel: 'Event',
-  timeSlotLabel: 'Time slot',
-};
+const defaultTranslator = createTranslator({});
 
 /**
  * AccessibilityLayer maintains a hidden DOM structure for screen readers
@@ -41,6 +46,8 @@ export class AccessibilityLayer {
   private root: HTMLElement;
   private config: AccessibilityConfig;
   private eventElements: Map<string, HTMLElement>;
+  /** Arrow keys follow the visual day order, so ArrowLeft moves forward in right-to-left layouts */
+  private isRtl = false;
 
   constructor(container: HTMLElement, config: AccessibilityConfig = {}) {
     this.container = container;
@@ -50,7 +57,7 @@ export class AccessibilityLayer {
     // Create hidden accessibility root
     this.root = document.createElement('div');
     this.root.setAttribute('role', 'application');
-    this.root.setAttribute('aria-label', config.labels?.scheduleLabel ?? DEFAULT_LABELS.scheduleLabel);
+    this.root.setAttribute('aria-label', this.translate(TranslationKey.scheduleLabel));
     this.root.className = 'sr-only weekly-schedule-a11y';
     
     // Apply screen-reader only styles
@@ -73,6 +80,8 @@ export class AccessibilityLayer {
    * Update the accessibility layer with new layout
    */
   update(layout: ScheduleLayout, events: ScheduleEvent[]): void {
+    this.isRtl = layout.direction === ScheduleDirection.RightToLeft;
+
     // Clear existing content
     this.root.innerHTML = '';
     this.eventElements.clear();
@@ -80,7 +89,7 @@ export class AccessibilityLayer {
     // Create schedule grid structure
     const grid = document.createElement('div');
     grid.setAttribute('role', 'grid');
-    grid.setAttribute('aria-label', this.config.labels?.scheduleLabel ?? DEFAULT_LABELS.scheduleLabel);
+    grid.setAttribute('aria-label', this.translate(TranslationKey.scheduleLabel));
 
     // Create day columns
     for (const dayLayout of layout.days) {
@@ -108,7 +117,7 @@ export class AccessibilityLayer {
     
     const dayName = getDayName(dayLayout.day, this.config.dayNameTranslations);
     header.textContent = dayName;
-    header.setAttribute('aria-label', `${dayName} ${this.config.labels?.dayHeaderLabel ?? DEFAULT_LABELS.dayHeaderLabel}`);
+    header.setAttribute('aria-label', this.translate(TranslationKey.dayColumnLabel, { day: dayName }));
     
     // Store day reference for keyboard navigation
     header.dataset.day = String(dayLayout.day);
@@ -130,7 +139,7 @@ export class AccessibilityLayer {
     if (dayEvents.length === 0) {
       const empty = document.createElement('div');
       empty.setAttribute('role', 'gridcell');
-      empty.textContent = `No events on ${dayName}`;
+      empty.textContent = this.translate(TranslationKey.noEventsOnDay, { day: dayName });
       column.appendChild(empty);
     }
 
@@ -162,7 +171,11 @@ export class AccessibilityLayer {
       return this.config.formatEventDescription(event);
     }
 
-    const timeRange = `${event.startTime.toString()} to ${event.endTime.toString()}`;
+    const formatTime = this.config.formatTime ?? (time => time.toString());
+    const timeRange = this.translate(
+      event.endsNextDay ? TranslationKey.eventTimeRangeNextDay : TranslationKey.eventTimeRange,
+      { start: formatTime(event.startTime), end: formatTime(event.endTime) }
+    );
     let description = `${event.title}, ${timeRange}`;
     
     if (event.description) {
@@ -221,14 +234,14 @@ export class AccessibilityLayer {
    */
   announceDay(day: DayOfWeek): void {
     const dayName = getDayName(day, this.config.dayNameTranslations);
-    this.announce(`Viewing ${dayName}`);
+    this.announce(this.translate(TranslationKey.viewingDay, { day: dayName }));
   }
 
   /**
    * Announce zoom reset
    */
   announceZoomReset(): void {
-    this.announce('Viewing full week');
+    this.announce(this.translate(TranslationKey.viewingWeek));
   }
 
   /**
@@ -300,7 +313,7 @@ export class AccessibilityLayer {
       case 'ArrowLeft':
       case 'ArrowRight':
         e.preventDefault();
-        this.navigateDays(day, e.key === 'ArrowRight' ? 1 : -1);
+        this.navigateDays(day, e.key === (this.isRtl ? 'ArrowLeft' : 'ArrowRight') ? 1 : -1);
         break;
     }
   }
@@ -342,6 +355,22 @@ export class AccessibilityLayer {
    */
   updateConfig(config: Partial<AccessibilityConfig>): void {
     this.config = { ...this.config, ...config };
+    this.root.setAttribute('aria-label', this.translate(TranslationKey.scheduleLabel));
+  }
+
+  /**
+   * Look up a translated label or announcement
+   */
+  private translate(key: TranslationKey, params?: Record<string, string | number>): string {
+    // Deprecated labels keep their old meaning: the schedule label, and a suffix after the day name
+    const labels = this.config.labels;
+    if (key === TranslationKey.scheduleLabel && labels?.scheduleLabel !== undefined) {
+      return labels.scheduleLabel;
+    }
+    if (key === TranslationKey.dayColumnLabel && labels?.dayHeaderLabel !== undefined) {
+      return `${params?.day ?? ''} ${labels.dayHeaderLabel}`;
+    }
+    return (this.config.translate ?? defaultTranslator)(key, params);
   }
 
   /**
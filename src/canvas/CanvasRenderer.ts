@@ -479,10 +479,20 @@ export function crispPixel(value: number, lineWidth: number = 1): number {
   return lineWidth % 2 === 1 ? Math.floor(value) + 0.5 : Math.floor(value);
 }
 
+/**
+ * Parsed colors keyed by their CSS string.
+ * Parsing goes through the DOM, so results are cached to keep large schedules fast.
+ */
+const parsedColorCache = new Map<string, { r: number; g: number; b: number; a: number } | null>();
+
 /**
  * Helper: Parse CSS color to RGBA components
  */
 export function parseColor(color: string): { r: number; g: number; b: number; a: number } | null {
+  if (parsedColorCache.has(color)) {
+    return parsedColorCache.get(color)!;
+  }
+
   // Create temporary element to compute color
   const temp = document.createElement('div');
   temp.style.color = color;
@@ -491,14 +501,17 @@ export function parseColor(color: string): { r: number; g: number; b: number; a:
   document.body.removeChild(temp);
 
   const match = computed.match(/rgba?\((\d+),\s*(\d+),\s*(\d+)(?:,\s*([\d.]+))?\)/);
-  if (!match) return null;
-
-  return {
-    r: parseInt(match[1], 10),
-    g: parseInt(match[2], 10),
-    b: parseInt(match[3], 10),
-    a: match[4] ? parseFloat(match[4]) : 1,
-  };
+  const parsed = match
+    ? {
+        r: parseInt(match[1], 10),
+        g: parseInt(match[2], 10),
+        b: parseInt(match[3], 10),
+        a: match[4] ? parseFloat(match[4]) : 1,
+      }
+    : null;
+
+  parsedColorCache.set(color, parsed);
+  return parsed;
 }
 
 /**
@@ -3,6 +3,7 @@
  */
 
 import type { EventLayout, ScheduleLayout, Rect, FontSpec, EventAnimationState } from './types';
+import type { TimeFormatter } from '../types';
 import { CanvasRenderer, darkenColor, withAlpha } from './CanvasRenderer';
 
 /**
@@ -33,6 +34,8 @@ export interface EventRendererConfig {
   minHeightForDescription: number;
   /** Line height multiplier */
   lineHeight: number;
+  /** Format event start and end times */
+  formatTime: TimeFormatter;
 }
 
 const DEFAULT_CONFIG: EventRendererConfig = {
@@ -60,6 +63,7 @@ const DEFAULT_CONFIG: EventRendererConfig = {
   minHeightForTime: 40,
   minHeightForDescription: 80,
   lineHeight: 1.3,
+  formatTime: time => time.toString(),
 };
 
 /**
@@ -97,7 +101,7 @@ export class EventRenderer {
     this.renderer.clip(layout.gridBounds);
 
     for (const eventLayout of sortedEvents) {
-      const isHovered = eventLayout.event.id === hoveredEventId;
+      const isHovered = !eventLayout.isOverflow && eventLayout.event.id === hoveredEventId;
       this.renderEvent(eventLayout, isHovered);
     }
 
@@ -143,6 +147,11 @@ export class EventRenderer {
     // Clear shadow for subsequent draws
     this.renderer.clearShadow();
 
+    // Mark edges where the event continues beyond what is shown
+    if (eventLayout.continuationEdges) {
+      this.renderContinuationMarkers(renderBounds, eventLayout.continuationEdges, eventLayout.textColor);
+    }
+
     // Draw hover border
     if (isHovered) {
       this.renderer.strokeRoundedRect(
@@ -203,7 +212,8 @@ export class EventRenderer {
 
     // Render time if there's enough space
     if (bounds.height >= this.config.minHeightForTime) {
-      const timeStr = `${event.startTime.toString()} - ${event.endTime.toString()}`;
+      const { formatTime } = this.config;
+      const timeStr = `${formatTime(event.startTime)} - ${formatTime(event.endTime)}`;
       this.renderer.setFont(this.config.timeFont);
       const timeHeight = this.config.timeFont.size * this.config.lineHeight;
       
@@ -241,6 +251,34 @@ export class EventRenderer {
     }
   }
 
+  /**
+   * Draw a dashed line along each cut edge of a clipped event
+   */
+  private renderContinuationMarkers(
+    bounds: Rect,
+    edges: NonNullable<EventLayout['continuationEdges']>,
+    color: string
+  ): void {
+    const inset = 1.5;
+    const markerColor = withAlpha(color, 0.8);
+    const left = bounds.x;
+    const right = bounds.x + bounds.width;
+    const top = bounds.y;
+    const bottom = bounds.y + bounds.height;
+
+    for (const edge of edges) {
+      if (edge === 'top') {
+        this.renderer.drawLine({ x: left, y: top + inset }, { x: right, y: top + inset }, markerColor, 3, [6, 4]);
+      } else if (edge === 'bottom') {
+        this.renderer.drawLine({ x: left, y: bottom - inset }, { x: right, y: bottom - inset }, markerColor, 3, [6, 4]);
+      } else if (edge === 'left') {
+        this.renderer.drawLine({ x: left + inset, y: top }, { x: left + inset, y: bottom }, markerColor, 3, [6, 4]);
+      } else {
+        this.renderer.drawLine({ x: right - inset, y: top }, { x: right - inset, y: bottom }, markerColor, 3, [6, 4]);
+      }
+    }
+  }
+
   /**
    * Render overflow indicator content
    */
@@ -2,8 +2,8 @@
  * Grid Renderer - Renders grid lines, headers, and time axis
  */
 
-import type { ScheduleLayout, DayLayout, CanvasTheme, FontSpec } from './types';
-import { ScheduleOrientation, getDayName, type DayNameTranslations } from '../types';
+import type { ScheduleLayout, DayLayout, CanvasTheme, FontSpec, Rect } from './types';
+import { ScheduleDirection, ScheduleOrientation, getDayName, type DayNameTranslations, type DayOfWeek } from '../types';
 import { CanvasRenderer } from './CanvasRenderer';
 
 /**
@@ -12,6 +12,8 @@ import { CanvasRenderer } from './CanvasRenderer';
 export interface GridRendererConfig {
   /** Day name translations */
   dayNameTranslations?: DayNameTranslations;
+  /** Date labels drawn after the day names (date-anchored weeks) */
+  dayDateLabels?: Partial<Record<DayOfWeek, string>>;
   /** Show alternating row/column backgrounds */
   showAlternatingBackground: boolean;
   /** Show grid lines */
@@ -72,16 +74,19 @@ export class GridRenderer {
     if (this.config.showAlternatingBackground) {
       this.renderAlternatingBackground(layout, theme);
     }
+
+    // 3. Shade background ranges (closed hours, breaks)
+    this.renderBackgrounds(layout, theme);
     
-    // 3. Draw grid lines
+    // 4. Draw grid lines
     if (this.config.showGridLines) {
       this.renderGridLines(layout, theme);
     }
     
-    // 4. Draw headers
+    // 5. Draw headers
     this.renderHeaders(layout, theme);
     
-    // 5. Draw time axis
+    // 6. Draw time axis
     this.renderTimeAxis(layout, theme);
   }
 
@@ -120,6 +125,27 @@ export class GridRenderer {
           this.config.gridLineWidth
         );
       }
+
+      // Resource separator lines, continuing the edges of the resource headers
+      for (const { bounds } of day.resourceHeaders ?? []) {
+        if (layout.orientation === ScheduleOrientation.Vertical) {
+          this.renderer.drawVerticalLine(
+            bounds.x,
+            day.contentBounds.y,
+            day.contentBounds.y + day.contentBounds.height,
+            theme.gridLineColor,
+            this.config.gridLineWidth
+          );
+        } else {
+          this.renderer.drawHorizontalLine(
+            bounds.y,
+            day.contentBounds.x,
+            day.contentBounds.x + day.contentBounds.width,
+            theme.gridLineColor,
+            this.config.gridLineWidth
+          );
+        }
+      }
     }
 
     // Draw border around grid
@@ -134,13 +160,12 @@ export class GridRenderer {
       // Alternate time slot rows
       layout.timeSlots.forEach((slot, index) => {
         if (index % 2 === 1) {
-          const slotHeight = layout.gridBounds.height / layout.timeSlots.length;
           this.renderer.fillRect(
             {
               x: layout.gridBounds.x,
               y: slot.lineStart.y,
               width: layout.gridBounds.width,
-              height: slotHeight,
+              height: slot.labelBounds.height,
             },
             theme.alternateRowColor
           );
@@ -156,6 +181,23 @@ export class GridRenderer {
     }
   }
 
+  /**
+   * Render shaded background ranges with their labels
+   */
+  private renderBackgrounds(layout: ScheduleLayout, theme: CanvasTheme): void {
+    this.renderer.setFont(this.config.timeFont);
+
+    for (const { bounds, background } of layout.backgrounds) {
+      this.renderer.fillRect(bounds, background.unavailable ? theme.unavailableColor : theme.backgroundRangeColor);
+      if (background.label) {
+        this.renderer.save();
+        this.renderer.clip(bounds);
+        this.renderer.drawTextEllipsis(background.label, bounds, theme.backgroundLabelColor, 4);
+        this.renderer.restore();
+      }
+    }
+  }
+
   /**
    * Render day headers
    */
@@ -171,7 +213,7 @@ export class GridRenderer {
 
     // Draw each day header
     for (const day of layout.days) {
-      const dayName = getDayName(day.day, this.config.dayNameTranslations);
+      const dayName = this.getHeaderLabel(day.day);
       
       this.renderer.drawTextCentered(
         dayName,
@@ -199,6 +241,8 @@ export class GridRenderer {
       }
     }
 
+    this.renderResourceHeaders(layout, theme);
+
     // Draw border under/beside header
     if (layout.orientation === ScheduleOrientation.Vertical) {
       this.renderer.drawHorizontalLine(
@@ -210,7 +254,7 @@ export class GridRenderer {
       );
     } else {
       this.renderer.drawVerticalLine(
-        layout.dayHeaderBounds.x + layout.dayHeaderBounds.width,
+        this.getInnerEdgeX(layout.dayHeaderBounds, layout),
         0,
         layout.canvasHeight,
         theme.gridLineMajorColor,
@@ -219,6 +263,23 @@ export class GridRenderer {
     }
   }
 
+  /**
+   * Render resource names under (vertical) or next to (horizontal) each day header
+   */
+  private renderResourceHeaders(layout: ScheduleLayout, theme: CanvasTheme): void {
+    this.renderer.setFont(this.config.timeFont);
+
+    for (const day of layout.days) {
+      for (const { resource, bounds } of day.resourceHeaders ?? []) {
+        this.renderer.save();
+        this.renderer.clip(bounds);
+        this.renderer.drawTextCentered(resource.name, bounds, theme.timeTextColor);
+        this.renderer.restore();
+        this.renderer.strokeRect(bounds, theme.gridLineColor, this.config.gridLineWidth);
+      }
+    }
+  }
+
   /**
    * Render time axis labels
    */
@@ -231,17 +292,25 @@ export class GridRenderer {
 
     // Draw each time slot label
     for (const slot of layout.timeSlots) {
-      this.renderer.drawTextCentered(
-        slot.label,
-        slot.labelBounds,
-        theme.timeTextColor
-      );
+      if (slot.secondaryLabel === undefined) {
+        this.renderer.drawTextCentered(
+          slot.label,
+          slot.labelBounds,
+          theme.timeTextColor
+        );
+        continue;
+      }
+
+      // Secondary time zone: side by side columns when vertical, stacked rows when horizontal
+      const [primaryBounds, secondaryBounds] = this.splitLabelBounds(slot.labelBounds, layout);
+      this.renderer.drawTextCentered(slot.label, primaryBounds, theme.timeTextColor);
+      this.renderer.drawTextCentered(slot.secondaryLabel, secondaryBounds, theme.secondaryTimeTextColor);
     }
 
     // Draw border
     if (layout.orientation === ScheduleOrientation.Vertical) {
       this.renderer.drawVerticalLine(
-        layout.timeAxisBounds.x + layout.timeAxisBounds.width,
+        this.getInnerEdgeX(layout.timeAxisBounds, layout),
         0,
         layout.canvasHeight,
         theme.gridLineMajorColor,
@@ -258,6 +327,32 @@ export class GridRenderer {
     }
   }
 
+  /**
+   * X of the edge of a side column (time axis or day headers) facing the grid
+   */
+  private getInnerEdgeX(bounds: Rect, layout: ScheduleLayout): number {
+    return layout.direction === ScheduleDirection.RightToLeft ? bounds.x : bounds.x + bounds.width;
+  }
+
+  /**
+   * Split a time label's bounds into primary and secondary time zone halves
+   * Side by side halves follow the writing direction (primary first)
+   */
+  private splitLabelBounds(bounds: Rect, layout: ScheduleLayout): [Rect, Rect] {
+    if (layout.orientation === ScheduleOrientation.Vertical) {
+      const width = bounds.width / 2;
+      const left = { ...bounds, width };
+      const right = { ...bounds, x: bounds.x + width, width };
+      return layout.direction === ScheduleDirection.RightToLeft ? [right, left] : [left, right];
+    }
+
+    const height = bounds.height / 2;
+    return [
+      { ...bounds, height },
+      { ...bounds, y: bounds.y + height, height },
+    ];
+  }
+
   /**
    * Render hover highlight for a day header
    */
@@ -266,10 +361,19 @@ export class GridRenderer {
     
     // Redraw the day name
     this.renderer.setFont(this.config.headerFont);
-    const dayName = getDayName(day.day, this.config.dayNameTranslations);
+    const dayName = this.getHeaderLabel(day.day);
     this.renderer.drawTextCentered(dayName, day.headerBounds, theme.headerTextColor);
   }
 
+  /**
+   * Day header text: the day name, followed by its date when one is configured
+   */
+  private getHeaderLabel(day: DayOfWeek): string {
+    const dayName = getDayName(day, this.config.dayNameTranslations);
+    const dateLabel = this.config.dayDateLabels?.[day];
+    return dateLabel ? `${dayName} ${dateLabel}` : dayName;
+  }
+
   /**
    * Render column/row highlight when hovering a day
    */
@@ -279,61 +383,33 @@ export class GridRenderer {
 }
 
 /**
- * Render "Now" indicator line showing current time
+ * Render "Now" indicator line showing current time across one day column
+ * @param bounds - Zero-length time range of the current minute in that day's column
+ *   (e.g., from LayoutEngine.getTimeRangeBounds(layout, day, minutes, minutes))
  */
 export function renderNowIndicator(
   renderer: CanvasRenderer,
   layout: ScheduleLayout,
+  bounds: Rect,
   color: string = '#ef4444',
   lineWidth: number = 2
 ): void {
-  const now = new Date();
-  const currentMinutes = now.getHours() * 60 + now.getMinutes();
-  
-  // Find the start time in minutes
-  const startMinutes = (layout.timeSlots[0]?.timeMinutes ?? 0);
-  const endMinutes = (layout.timeSlots[layout.timeSlots.length - 1]?.timeMinutes ?? 0) + 60; // Assume 60 min last slot
-  
-  // Check if current time is within range
-  if (currentMinutes < startMinutes || currentMinutes > endMinutes) {
-    return;
-  }
-  
-  // Calculate position
-  const totalDuration = endMinutes - startMinutes;
-  const elapsed = currentMinutes - startMinutes;
-  const progress = elapsed / totalDuration;
-  
+  const ctx = renderer.getContext();
+  const isRtl = layout.direction === ScheduleDirection.RightToLeft;
   if (layout.orientation === ScheduleOrientation.Vertical) {
-    const y = layout.gridBounds.y + layout.gridBounds.height * progress;
-    renderer.drawHorizontalLine(
-      y,
-      layout.gridBounds.x,
-      layout.gridBounds.x + layout.gridBounds.width,
-      color,
-      lineWidth
-    );
-    
-    // Draw small circle at the start
-    const ctx = renderer.getContext();
+    renderer.drawHorizontalLine(bounds.y, bounds.x, bounds.x + bounds.width, color, lineWidth);
+
+    // Draw small circle at the start edge of the column
     ctx.beginPath();
-    ctx.arc(layout.gridBounds.x, y, 4, 0, Math.PI * 2);
+    ctx.arc(isRtl ? bounds.x + bounds.width : bounds.x, bounds.y, 4, 0, Math.PI * 2);
     ctx.fillStyle = color;
     ctx.fill();
   } else {
-    const x = layout.gridBounds.x + layout.gridBounds.width * progress;
-    renderer.drawVerticalLine(
-      x,
-      layout.gridBounds.y,
-      layout.gridBounds.y + layout.gridBounds.height,
-      color,
-      lineWidth
-    );
-    
-    // Draw small circle at the top
-    const ctx = renderer.getContext();
+    renderer.drawVerticalLine(bounds.x, bounds.y, bounds.y + bounds.height, color, lineWidth);
+
+    // Draw small circle at the top of the row
     ctx.beginPath();
-    ctx.arc(x, layout.gridBounds.y, 4, 0, Math.PI * 2);
+    ctx.arc(bounds.x, bounds.y, 4, 0, Math.PI * 2);
     ctx.fillStyle = color;
     ctx.fill();
   }
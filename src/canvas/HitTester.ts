@@ -11,6 +11,7 @@ import type {
   Rect, 
   HitTestResult 
 } from './types';
+import { ScheduleDirection, ScheduleOrientation } from '../types';
 import { pointInRect } from './LayoutEngine';
 
 /**
@@ -180,7 +181,10 @@ export class HitTester {
     if (slots.length === 0) return null;
 
     // Binary search for time slot
-    // This works for both orientations
+    // This works for both orientations and directions
+    const isVertical = this.layout.orientation === ScheduleOrientation.Vertical;
+    // Horizontal right-to-left slots start at their right edge and time grows leftwards
+    const isReversed = !isVertical && this.layout.direction === ScheduleDirection.RightToLeft;
     let low = 0;
     let high = slots.length - 1;
     
@@ -189,25 +193,20 @@ export class HitTester {
       const slot = slots[mid];
       
       // Determine if point is in this slot's range
-      const isVertical = this.layout.orientation === 'vertical';
       const slotStart = isVertical ? slot.lineStart.y : slot.lineStart.x;
-      const slotSize = isVertical 
-        ? this.layout.gridBounds.height / slots.length
-        : this.layout.gridBounds.width / slots.length;
-      const slotEnd = slotStart + slotSize;
+      // Slots are sized by their duration (a shortened first or last slot is smaller)
+      const slotSize = isVertical ? slot.labelBounds.height : slot.labelBounds.width;
       const pos = isVertical ? point.y : point.x;
+      const offset = isReversed ? slotStart - pos : pos - slotStart;
       
-      if (pos < slotStart) {
+      if (offset < 0) {
         high = mid - 1;
-      } else if (pos > slotEnd) {
+      } else if (offset > slotSize) {
         low = mid + 1;
       } else {
         // Found the slot, calculate exact minutes
-        const progress = (pos - slotStart) / slotSize;
-        const slotDuration = slots.length > 1 
-          ? slots[1].timeMinutes - slots[0].timeMinutes 
-          : 60;
-        const minutes = slot.timeMinutes + Math.floor(progress * slotDuration);
+        const progress = offset / slotSize;
+        const minutes = slot.timeMinutes + Math.floor(progress * slot.durationMinutes);
         return { minutes, slot };
       }
     }
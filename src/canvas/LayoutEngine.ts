@@ -7,20 +7,30 @@ import type {
   ScheduleEvent, 
   ScheduleConfig, 
   DayOfWeek, 
-  LaneInfo,
-  Hour
+  LaneInfo
 } from '../types';
-import { ScheduleOrientation, TimeSlotInterval } from '../types';
+import { ScheduleDirection, ScheduleOrientation, TimeOnly, TimeSlotInterval } from '../types';
 import { 
   groupEventsByDay, 
-  assignLanes, 
-  timeToSlotIndex, 
-  timeToSlotOffset 
+  assignResourceLanes, 
+  timeToAxisOffset,
+  getAxisStartMinutes,
+  getAxisEndMinutes,
+  getAxisSlots,
+  isLabeledSlot,
+  isOverflowIndicator,
+  projectBackgroundsToAxis,
+  resolveVisibleRange,
+  MINUTES_PER_DAY
 } from '../utils/layoutHelpers';
+import { getLocalTimeZone, getSecondaryAxisTimes } from '../utils/timeZone';
+import { createTimeFormatter } from '../utils/timeFormat';
+import type { AxisRange, AxisSegment, AxisSlot } from '../types/internal';
 import type { 
   ScheduleLayout, 
   EventLayout, 
   DayLayout, 
+  BackgroundLayout,
   TimeSlotLayout,
   Rect,
   Point,
@@ -38,10 +48,15 @@ export const DEFAULT_THEME: CanvasTheme = {
   gridLineMajorColor: '#d1d5db',
   headerTextColor: '#111827',
   timeTextColor: '#6b7280',
+  secondaryTimeTextColor: '#9ca3af',
   eventTextColor: '#ffffff',
   eventDefaultColor: '#3b82f6',
   eventHoverBorderColor: '#1d4ed8',
   overflowIndicatorColor: '#9ca3af',
+  backgroundRangeColor: 'rgba(107, 114, 128, 0.08)',
+  unavailableColor: 'rgba(107, 114, 128, 0.16)',
+  backgroundLabelColor: '#6b7280',
+  nowIndicatorColor: '#ef4444',
   hoverHighlightColor: 'rgba(59, 130, 246, 0.1)',
   selectionColor: 'rgba(59, 130, 246, 0.2)',
 };
@@ -54,6 +69,10 @@ export interface LayoutDimensions {
   crossAxisSize: number;
   /** Height of day header (vertical) or time header (horizontal) */
   headerSize: number;
+  /** Height of the resource header row under the day headers (vertical, with resources) */
+  resourceHeaderHeight: number;
+  /** Width of the resource header column next to the day headers (horizontal, with resources) */
+  resourceHeaderWidth: number;
   /** Size of each time slot in pixels */
   slotSize: number;
   /** Minimum slot size */
@@ -71,6 +90,8 @@ export interface LayoutDimensions {
 const DEFAULT_DIMENSIONS: LayoutDimensions = {
   crossAxisSize: 80,
   headerSize: 40,
+  resourceHeaderHeight: 24,
+  resourceHeaderWidth: 80,
   slotSize: 60,
   minSlotSize: 80,
   minDayColumnWidth: 150,
@@ -86,6 +107,7 @@ export class LayoutEngine {
   private config: ScheduleConfig;
   private dimensions: LayoutDimensions;
   private theme: CanvasTheme;
+  private visibleRange: AxisRange | null = null;
 
   constructor(
     config: ScheduleConfig,
@@ -104,6 +126,14 @@ export class LayoutEngine {
     this.config = { ...this.config, ...config };
   }
 
+  /**
+   * Override the configured time range of the axis (e.g., hours widened by autoFitHours)
+   * @param range - Axis minutes; the end exceeds 1440 when the axis extends into the next day
+   */
+  setVisibleTimeRange(range: AxisRange): void {
+    this.visibleRange = range;
+  }
+
   /**
    * Update dimensions
    */
@@ -126,10 +156,10 @@ export class LayoutEngine {
       ? [zoomedDay] 
       : (this.config.visibleDays ?? []);
     
-    const timeSlotCount = this.getTimeSlotCount();
+    const axisSlots = this.getAxisSlots();
     
     // Calculate grid bounds (excluding headers)
-    const intersectionBounds = this.computeIntersectionBounds();
+    const intersectionBounds = this.computeIntersectionBounds(orientation);
     const dayHeaderBounds = this.computeDayHeaderBounds(canvasWidth, canvasHeight, orientation);
     const timeAxisBounds = this.computeTimeAxisBounds(canvasWidth, canvasHeight, orientation);
     const gridBounds = this.computeGridBounds(canvasWidth, canvasHeight, orientation);
@@ -138,19 +168,20 @@ export class LayoutEngine {
     const days = this.computeDayLayouts(visibleDays, gridBounds, dayHeaderBounds, orientation);
     
     // Calculate time slot layouts
-    const timeSlots = this.computeTimeSlotLayouts(timeSlotCount, gridBounds, timeAxisBounds, orientation);
+    const timeSlots = this.computeTimeSlotLayouts(axisSlots, gridBounds, timeAxisBounds, orientation, visibleDays);
     
     // Calculate event layouts
     const eventLayouts = this.computeEventLayouts(
       events,
       visibleDays,
       days,
-      timeSlots,
       orientation,
       zoomedDay
     );
 
-    return {
+    const backgrounds = this.computeBackgroundLayouts(days, orientation);
+
+    const layout: ScheduleLayout = {
       canvasWidth,
       canvasHeight,
       gridBounds,
@@ -160,31 +191,48 @@ export class LayoutEngine {
       days,
       timeSlots,
       events: eventLayouts,
+      backgrounds,
       orientation,
+      direction: this.config.direction ?? ScheduleDirection.LeftToRight,
       devicePixelRatio,
       zoomedDay,
     };
+
+    // Everything is laid out left-to-right first, right-to-left mirrors it horizontally
+    return layout.direction === ScheduleDirection.RightToLeft ? mirrorLayout(layout) : layout;
   }
 
   /**
-   * Get the number of time slots based on config
+   * Slots of the visible time range, the first and last one shorter when it isn't slot-aligned
    */
-  private getTimeSlotCount(): number {
-    const startHour = this.config.startHour ?? 9;
-    const endHour = this.config.endHour ?? 17;
+  private getAxisSlots(): AxisSlot[] {
     const interval = this.config.timeSlotInterval ?? TimeSlotInterval.SixtyMinutes;
-    return Math.ceil((endHour - startHour) * 60 / interval);
+    return getAxisSlots(this.getVisibleTimeRange(), interval);
+  }
+
+  /**
+   * Size of the top band and the side band, grown by the resource headers when resources are configured
+   * (under the day headers when vertical, next to them when horizontal)
+   */
+  private getBandSizes(orientation: ScheduleOrientation): { headerSize: number; crossAxisSize: number } {
+    const hasResources = (this.config.resources?.length ?? 0) > 0;
+    const isVertical = orientation === ScheduleOrientation.Vertical;
+    return {
+      headerSize: this.dimensions.headerSize + (hasResources && isVertical ? this.dimensions.resourceHeaderHeight : 0),
+      crossAxisSize: this.dimensions.crossAxisSize + (hasResources && !isVertical ? this.dimensions.resourceHeaderWidth : 0),
+    };
   }
 
   /**
    * Compute intersection bounds (top-left corner)
    */
-  private computeIntersectionBounds(): Rect {
+  private computeIntersectionBounds(orientation: ScheduleOrientation): Rect {
+    const { headerSize, crossAxisSize } = this.getBandSizes(orientation);
     return {
       x: 0,
       y: 0,
-      width: this.dimensions.crossAxisSize,
-      height: this.dimensions.headerSize,
+      width: crossAxisSize,
+      height: headerSize,
     };
   }
 
@@ -196,21 +244,22 @@ export class LayoutEngine {
     canvasHeight: number,
     orientation: ScheduleOrientation
   ): Rect {
+    const { headerSize, crossAxisSize } = this.getBandSizes(orientation);
     if (orientation === ScheduleOrientation.Vertical) {
       // Days as columns - header is at top
       return {
-        x: this.dimensions.crossAxisSize,
+        x: crossAxisSize,
         y: 0,
-        width: canvasWidth - this.dimensions.crossAxisSize,
-        height: this.dimensions.headerSize,
+        width: canvasWidth - crossAxisSize,
+        height: headerSize,
       };
     } else {
       // Days as rows - header is on left
       return {
         x: 0,
-        y: this.dimensions.headerSize,
-        width: this.dimensions.crossAxisSize,
-        height: canvasHeight - this.dimensions.headerSize,
+        y: headerSize,
+        width: crossAxisSize,
+        height: canvasHeight - headerSize,
       };
     }
   }
@@ -223,21 +272,22 @@ export class LayoutEngine {
     canvasHeight: number,
     orientation: ScheduleOrientation
   ): Rect {
+    const { headerSize, crossAxisSize } = this.getBandSizes(orientation);
     if (orientation === ScheduleOrientation.Vertical) {
       // Time axis is on left
       return {
         x: 0,
-        y: this.dimensions.headerSize,
-        width: this.dimensions.crossAxisSize,
-        height: canvasHeight - this.dimensions.headerSize,
+        y: headerSize,
+        width: crossAxisSize,
+        height: canvasHeight - headerSize,
       };
     } else {
       // Time axis is at top
       return {
-        x: this.dimensions.crossAxisSize,
+        x: crossAxisSize,
         y: 0,
-        width: canvasWidth - this.dimensions.crossAxisSize,
-        height: this.dimensions.headerSize,
+        width: canvasWidth - crossAxisSize,
+        height: headerSize,
       };
     }
   }
@@ -250,19 +300,20 @@ export class LayoutEngine {
     canvasHeight: number,
     orientation: ScheduleOrientation
   ): Rect {
+    const { headerSize, crossAxisSize } = this.getBandSizes(orientation);
     if (orientation === ScheduleOrientation.Vertical) {
       return {
-        x: this.dimensions.crossAxisSize,
-        y: this.dimensions.headerSize,
-        width: canvasWidth - this.dimensions.crossAxisSize,
-        height: canvasHeight - this.dimensions.headerSize,
+        x: crossAxisSize,
+        y: headerSize,
+        width: canvasWidth - crossAxisSize,
+        height: canvasHeight - headerSize,
       };
     } else {
       return {
-        x: this.dimensions.crossAxisSize,
-        y: this.dimensions.headerSize,
-        width: canvasWidth - this.dimensions.crossAxisSize,
-        height: canvasHeight - this.dimensions.headerSize,
+        x: crossAxisSize,
+        y: headerSize,
+        width: canvasWidth - crossAxisSize,
+        height: canvasHeight - headerSize,
       };
     }
   }
@@ -279,18 +330,23 @@ export class LayoutEngine {
     const dayCount = visibleDays.length;
     if (dayCount === 0) return [];
 
+    const resources = this.config.resources ?? [];
+    const resourceCount = resources.length;
+
     return visibleDays.map((day, index) => {
       if (orientation === ScheduleOrientation.Vertical) {
-        // Days as columns
+        // Days as columns, resource headers in a row under the day name
         const dayWidth = gridBounds.width / dayCount;
-        return {
+        const x = headerBounds.x + index * dayWidth;
+        const dayNameHeight = headerBounds.height - (resourceCount > 0 ? this.dimensions.resourceHeaderHeight : 0);
+        const dayLayout: DayLayout = {
           day,
           index,
           headerBounds: {
-            x: headerBounds.x + index * dayWidth,
+            x,
             y: headerBounds.y,
             width: dayWidth,
-            height: headerBounds.height,
+            height: dayNameHeight,
           },
           contentBounds: {
             x: gridBounds.x + index * dayWidth,
@@ -299,16 +355,30 @@ export class LayoutEngine {
             height: gridBounds.height,
           },
         };
+        if (resourceCount > 0) {
+          dayLayout.resourceHeaders = resources.map((resource, resourceIndex) => ({
+            resource,
+            bounds: {
+              x: x + (resourceIndex * dayWidth) / resourceCount,
+              y: headerBounds.y + dayNameHeight,
+              width: dayWidth / resourceCount,
+              height: this.dimensions.resourceHeaderHeight,
+            },
+          }));
+        }
+        return dayLayout;
       } else {
-        // Days as rows
+        // Days as rows, resource headers in a column next to the day name
         const dayHeight = gridBounds.height / dayCount;
-        return {
+        const y = headerBounds.y + index * dayHeight;
+        const dayNameWidth = headerBounds.width - (resourceCount > 0 ? this.dimensions.resourceHeaderWidth : 0);
+        const dayLayout: DayLayout = {
           day,
           index,
           headerBounds: {
             x: headerBounds.x,
-            y: headerBounds.y + index * dayHeight,
-            width: headerBounds.width,
+            y,
+            width: dayNameWidth,
             height: dayHeight,
           },
           contentBounds: {
@@ -318,37 +388,71 @@ export class LayoutEngine {
             height: dayHeight,
           },
         };
+        if (resourceCount > 0) {
+          dayLayout.resourceHeaders = resources.map((resource, resourceIndex) => ({
+            resource,
+            bounds: {
+              x: headerBounds.x + dayNameWidth,
+              y: y + (resourceIndex * dayHeight) / resourceCount,
+              width: this.dimensions.resourceHeaderWidth,
+              height: dayHeight / resourceCount,
+            },
+          }));
+        }
+        return dayLayout;
       }
     });
   }
 
   /**
    * Compute layout for each time slot
+   * Every slot gets a grid line; only slots on labelInterval steps get a label.
+   * Slots are sized by their duration, so shortened first and last slots are drawn shorter.
    */
   private computeTimeSlotLayouts(
-    slotCount: number,
+    axisSlots: AxisSlot[],
     gridBounds: Rect,
     axisBounds: Rect,
-    orientation: ScheduleOrientation
+    orientation: ScheduleOrientation,
+    visibleDays: DayOfWeek[]
   ): TimeSlotLayout[] {
-    const startHour = this.config.startHour ?? 9;
-    const interval = this.config.timeSlotInterval ?? TimeSlotInterval.SixtyMinutes;
+    const axis = this.getVisibleTimeRange();
+    const labelInterval = this.config.labelInterval ?? this.config.timeSlotInterval ?? TimeSlotInterval.SixtyMinutes;
     const slots: TimeSlotLayout[] = [];
 
-    for (let i = 0; i < slotCount; i++) {
-      const minutes = startHour * 60 + i * interval;
-      const hours = Math.floor(minutes / 60);
-      const mins = minutes % 60;
-      const label = `${hours.toString().padStart(2, '0')}:${mins.toString().padStart(2, '0')}`;
+    const formatTime = createTimeFormatter(this.config);
+    const secondaryTimes = this.config.secondaryTimeZone
+      ? getSecondaryAxisTimes(
+          axisSlots.map(slot => slot.startMinutes),
+          this.config.timeZone ?? getLocalTimeZone(),
+          this.config.secondaryTimeZone,
+          visibleDays,
+          this.config.weekStartDate,
+          this.config.firstDayOfWeek
+        )
+      : undefined;
+
+    axisSlots.forEach((axisSlot, i) => {
+      const minutes = axisSlot.startMinutes;
+      const durationMinutes = axisSlot.endMinutes - axisSlot.startMinutes;
+      const startOffset = timeToAxisOffset(minutes, axis);
+      const endOffset = timeToAxisOffset(axisSlot.endMinutes, axis);
+      const labeled = isLabeledSlot(minutes, axis, labelInterval);
+      // Axes extending past midnight label the next day's hours from 00:00 again
+      const label = labeled ? formatTime(TimeOnly.fromMinutes(minutes % MINUTES_PER_DAY)) : '';
+      const secondaryTime = labeled ? secondaryTimes?.[i] : undefined;
+      const secondaryLabel = secondaryTime ? formatTime(secondaryTime) : undefined;
 
       if (orientation === ScheduleOrientation.Vertical) {
         // Time slots as rows
-        const slotHeight = gridBounds.height / slotCount;
-        const y = gridBounds.y + i * slotHeight;
+        const y = gridBounds.y + startOffset * gridBounds.height;
+        const slotHeight = (endOffset - startOffset) * gridBounds.height;
         
         slots.push({
           timeMinutes: minutes,
+          durationMinutes,
           label,
+          secondaryLabel,
           labelBounds: {
             x: axisBounds.x,
             y: y,
@@ -360,12 +464,14 @@ export class LayoutEngine {
         });
       } else {
         // Time slots as columns
-        const slotWidth = gridBounds.width / slotCount;
-        const x = gridBounds.x + i * slotWidth;
+        const x = gridBounds.x + startOffset * gridBounds.width;
+        const slotWidth = (endOffset - startOffset) * gridBounds.width;
         
         slots.push({
           timeMinutes: minutes,
+          durationMinutes,
           label,
+          secondaryLabel,
           labelBounds: {
             x: x,
             y: axisBounds.y,
@@ -376,7 +482,7 @@ export class LayoutEngine {
           lineEnd: { x, y: gridBounds.y + gridBounds.height },
         });
       }
-    }
+    });
 
     return slots;
   }
@@ -388,7 +494,6 @@ export class LayoutEngine {
     events: ScheduleEvent[],
     visibleDays: DayOfWeek[],
     days: DayLayout[],
-    timeSlots: TimeSlotLayout[],
     orientation: ScheduleOrientation,
     _zoomedDay: DayOfWeek | null
   ): EventLayout[] {
@@ -396,11 +501,11 @@ export class LayoutEngine {
     const layouts: EventLayout[] = [];
 
     // Process visible events and compute lane assignments
-    const laneMaps = new Map<DayOfWeek, Map<string, LaneInfo>>();
+    const laneMaps = new Map<DayOfWeek, Map<ScheduleEvent, LaneInfo>>();
     
     for (const [day, dayEvents] of eventsByDay.entries()) {
       if (!visibleDays.includes(day)) continue;
-      laneMaps.set(day, assignLanes(dayEvents));
+      laneMaps.set(day, assignResourceLanes(dayEvents, this.config.resources, this.config.laneLayout));
     }
 
     // Compute layout for each event
@@ -410,20 +515,19 @@ export class LayoutEngine {
       const dayLayout = days.find(d => d.day === event.day);
       if (!dayLayout) continue;
 
-      const laneInfo = laneMaps.get(event.day)?.get(event.id);
+      const laneInfo = laneMaps.get(event.day)?.get(event);
       const bounds = this.computeEventBounds(
         event,
         dayLayout,
-        timeSlots,
         orientation,
         laneInfo
       );
 
       // Parse background color from event style or use default
       const backgroundColor = this.extractBackgroundColor(event) ?? this.theme.eventDefaultColor;
-      const isOverflow = event.className?.includes('event-overflow-indicator') ?? false;
+      const isOverflow = isOverflowIndicator(event);
 
-      layouts.push({
+      const eventLayout: EventLayout = {
         event,
         bounds,
         laneInfo,
@@ -432,7 +536,17 @@ export class LayoutEngine {
         textColor: this.theme.eventTextColor,
         opacity: 1,
         scale: 1,
-      });
+      };
+
+      const { continuesBefore, continuesAfter } = event as Partial<AxisSegment>;
+      if (!isOverflow && (continuesBefore || continuesAfter)) {
+        const isVertical = orientation === ScheduleOrientation.Vertical;
+        eventLayout.continuationEdges = [];
+        if (continuesBefore) eventLayout.continuationEdges.push(isVertical ? 'top' : 'left');
+        if (continuesAfter) eventLayout.continuationEdges.push(isVertical ? 'bottom' : 'right');
+      }
+
+      layouts.push(eventLayout);
     }
 
     return layouts;
@@ -444,34 +558,27 @@ export class LayoutEngine {
   private computeEventBounds(
     event: ScheduleEvent,
     dayLayout: DayLayout,
-    timeSlots: TimeSlotLayout[],
     orientation: ScheduleOrientation,
     laneInfo?: LaneInfo
   ): Rect {
-    const startHour = this.config.startHour ?? 9 as Hour;
-    const interval = this.config.timeSlotInterval ?? TimeSlotInterval.SixtyMinutes;
-    
-    // Calculate position along time axis
-    const startSlot = timeToSlotIndex(event.startTime, startHour, interval);
-    const startOffset = timeToSlotOffset(event.startTime, startHour, interval);
-    const endSlot = timeToSlotIndex(event.endTime, startHour, interval);
-    const endOffset = timeToSlotOffset(event.endTime, startHour, interval);
+    // Calculate position along time axis (0 = axis start, 1 = axis end)
+    const axis = this.getVisibleTimeRange();
+    const startOffset = timeToAxisOffset(getAxisStartMinutes(event), axis);
+    const endOffset = timeToAxisOffset(getAxisEndMinutes(event), axis);
 
     // Calculate lane position
     const laneIndex = laneInfo?.laneIndex ?? 0;
     const totalLanes = laneInfo?.totalLanes ?? 1;
-    const laneWidth = 1 / totalLanes;
-    const laneStart = laneIndex * laneWidth;
+    const laneWidth = (laneInfo?.laneSpan ?? 1) / totalLanes;
+    const laneStart = laneIndex / totalLanes;
 
-    const content = dayLayout.contentBounds;
-    const slotCount = timeSlots.length;
+    // Lanes split the event's resource share of the day
+    const content = this.getResourceBounds(dayLayout, orientation, laneInfo);
 
     if (orientation === ScheduleOrientation.Vertical) {
       // Days as columns, time as rows
-      const slotHeight = content.height / slotCount;
-      const top = content.y + (startSlot + startOffset) * slotHeight;
-      const spanSlots = endSlot - startSlot + endOffset - startOffset;
-      const height = spanSlots * slotHeight;
+      const top = content.y + startOffset * content.height;
+      const height = (endOffset - startOffset) * content.height;
       
       const lanePixelWidth = content.width * laneWidth;
       const left = content.x + content.width * laneStart;
@@ -480,10 +587,8 @@ export class LayoutEngine {
       return { x: left, y: top, width, height };
     } else {
       // Days as rows, time as columns
-      const slotWidth = content.width / slotCount;
-      const left = content.x + (startSlot + startOffset) * slotWidth;
-      const spanSlots = endSlot - startSlot + endOffset - startOffset;
-      const width = spanSlots * slotWidth;
+      const left = content.x + startOffset * content.width;
+      const width = (endOffset - startOffset) * content.width;
       
       const lanePixelHeight = content.height * laneWidth;
       const top = content.y + content.height * laneStart;
@@ -493,6 +598,109 @@ export class LayoutEngine {
     }
   }
 
+  /**
+   * Share of a day's content bounds belonging to the resource of a lane (the whole day without resources)
+   */
+  private getResourceBounds(dayLayout: DayLayout, orientation: ScheduleOrientation, laneInfo?: LaneInfo): Rect {
+    const content = dayLayout.contentBounds;
+    const resourceCount = laneInfo?.resourceCount ?? 1;
+    const resourceIndex = laneInfo?.resourceIndex ?? 0;
+    if (resourceCount <= 1) return content;
+
+    if (orientation === ScheduleOrientation.Vertical) {
+      const width = content.width / resourceCount;
+      return { ...content, x: content.x + resourceIndex * width, width };
+    }
+    const height = content.height / resourceCount;
+    return { ...content, y: content.y + resourceIndex * height, height };
+  }
+
+  /**
+   * Compute bounds of the configured background ranges in the visible day columns
+   */
+  private computeBackgroundLayouts(days: DayLayout[], orientation: ScheduleOrientation): BackgroundLayout[] {
+    const axis = this.getVisibleTimeRange();
+    const segments = projectBackgroundsToAxis(this.config.backgrounds ?? [], axis, days.map(day => day.day));
+
+    return segments.flatMap(segment => {
+      const dayLayout = days.find(day => day.day === segment.day);
+      if (!dayLayout) return [];
+
+      const startOffset = timeToAxisOffset(segment.startMinutes, axis);
+      const endOffset = timeToAxisOffset(segment.endMinutes, axis);
+      const content = dayLayout.contentBounds;
+      const bounds: Rect = orientation === ScheduleOrientation.Vertical
+        ? { x: content.x, y: content.y + startOffset * content.height, width: content.width, height: (endOffset - startOffset) * content.height }
+        : { x: content.x + startOffset * content.width, y: content.y, width: (endOffset - startOffset) * content.width, height: content.height };
+      return [{ day: segment.day, bounds, background: segment.background }];
+    });
+  }
+
+  /**
+   * Get the visible time range in minutes since midnight
+   * The end exceeds 1440 when the axis extends into the next day
+   */
+  getVisibleTimeRange(): AxisRange {
+    return this.visibleRange ?? resolveVisibleRange(this.config);
+  }
+
+  /**
+   * Cross-axis size of one resource column of a day (the whole day column without resources),
+   * i.e. the space lanes of overlapping events share when all visible days are shown
+   */
+  getLaneSpace(canvasWidth: number, canvasHeight: number): number {
+    const orientation = this.config.orientation ?? ScheduleOrientation.Vertical;
+    const grid = this.computeGridBounds(canvasWidth, canvasHeight, orientation);
+    const gridSize = orientation === ScheduleOrientation.Vertical ? grid.width : grid.height;
+    const dayCount = Math.max(1, this.config.visibleDays?.length ?? 0);
+    const resourceCount = Math.max(1, this.config.resources?.length ?? 0);
+    return gridSize / dayCount / resourceCount;
+  }
+
+  /**
+   * Compute full-width bounds of a time range on a day (e.g., for drop zones)
+   * The range is clipped to the visible time axis
+   * @returns Bounds in canvas coordinates, or null if the day is not visible
+   */
+  getTimeRangeBounds(
+    layout: ScheduleLayout,
+    day: DayOfWeek,
+    startMinutes: number,
+    endMinutes: number
+  ): Rect | null {
+    const dayLayout = layout.days.find(d => d.day === day);
+    if (!dayLayout || layout.timeSlots.length === 0) return null;
+
+    const { startMinutes: axisStart, endMinutes: axisEnd } = this.getVisibleTimeRange();
+    const clippedStart = Math.max(axisStart, startMinutes);
+    const clippedEnd = Math.max(clippedStart, Math.min(axisEnd, endMinutes));
+    const totalMinutes = axisEnd - axisStart;
+    const startRatio = (clippedStart - axisStart) / totalMinutes;
+    const lengthRatio = (clippedEnd - clippedStart) / totalMinutes;
+    const content = dayLayout.contentBounds;
+
+    if (layout.orientation === ScheduleOrientation.Vertical) {
+      return {
+        x: content.x,
+        y: content.y + startRatio * content.height,
+        width: content.width,
+        height: lengthRatio * content.height,
+      };
+    }
+
+    // Time runs from the right edge in right-to-left layouts
+    const startX = layout.direction === ScheduleDirection.RightToLeft
+      ? content.x + (1 - startRatio - lengthRatio) * content.width
+      : content.x + startRatio * content.width;
+
+    return {
+      x: startX,
+      y: content.y,
+      width: lengthRatio * content.width,
+      height: content.height,
+    };
+  }
+
   /**
    * Extract background color from event style string
    */
@@ -524,6 +732,63 @@ export class LayoutEngine {
   }
 }
 
+/**
+ * Mirror a rectangle across the vertical center line of the canvas
+ */
+function mirrorRect(rect: Rect, canvasWidth: number): Rect {
+  return { ...rect, x: canvasWidth - rect.x - rect.width };
+}
+
+/**
+ * Mirror a point across the vertical center line of the canvas
+ */
+function mirrorPoint(point: Point, canvasWidth: number): Point {
+  return { ...point, x: canvasWidth - point.x };
+}
+
+/**
+ * Mirror a left-to-right layout into its right-to-left form
+ * The time axis (vertical) or day headers (horizontal) move to the right, the first day
+ * column to the right edge of the grid, and time runs from right to left when horizontal.
+ */
+function mirrorLayout(layout: ScheduleLayout): ScheduleLayout {
+  const width = layout.canvasWidth;
+  const swapEdge = (edge: 'top' | 'right' | 'bottom' | 'left') =>
+    edge === 'left' ? 'right' : edge === 'right' ? 'left' : edge;
+
+  return {
+    ...layout,
+    gridBounds: mirrorRect(layout.gridBounds, width),
+    dayHeaderBounds: mirrorRect(layout.dayHeaderBounds, width),
+    timeAxisBounds: mirrorRect(layout.timeAxisBounds, width),
+    intersectionBounds: mirrorRect(layout.intersectionBounds, width),
+    days: layout.days.map(day => ({
+      ...day,
+      headerBounds: mirrorRect(day.headerBounds, width),
+      contentBounds: mirrorRect(day.contentBounds, width),
+      resourceHeaders: day.resourceHeaders?.map(header => ({
+        ...header,
+        bounds: mirrorRect(header.bounds, width),
+      })),
+    })),
+    timeSlots: layout.timeSlots.map(slot => ({
+      ...slot,
+      labelBounds: mirrorRect(slot.labelBounds, width),
+      lineStart: mirrorPoint(slot.lineStart, width),
+      lineEnd: mirrorPoint(slot.lineEnd, width),
+    })),
+    events: layout.events.map(eventLayout => ({
+      ...eventLayout,
+      bounds: mirrorRect(eventLayout.bounds, width),
+      continuationEdges: eventLayout.continuationEdges?.map(swapEdge),
+    })),
+    backgrounds: layout.backgrounds.map(backgroundLayout => ({
+      ...backgroundLayout,
+      bounds: mirrorRect(backgroundLayout.bounds, width),
+    })),
+  };
+}
+
 /**
  * Utility: Check if a point is inside a rectangle
  */
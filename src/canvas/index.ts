@@ -26,6 +26,9 @@ export type {
   CanvasRendererOptions,
   ScrollState,
   InteractionState,
+  DragTarget,
+  DragState,
+  SlotSelectionState,
   CanvasInteractionEvent,
 } from './types';
 
@@ -2,7 +2,7 @@
  * Canvas-specific types for the WeeklySchedule canvas renderer
  */
 
-import type { ScheduleEvent, DayOfWeek, LaneInfo, ScheduleOrientation } from '../types';
+import type { BackgroundRange, ScheduleEvent, ScheduleResource, DayOfWeek, LaneInfo, ScheduleDirection, ScheduleOrientation } from '../types';
 
 /**
  * A rectangle in pixel coordinates
@@ -67,6 +67,8 @@ export interface EventLayout {
   opacity: number;
   /** Scale factor for animations */
   scale: number;
+  /** Edges where the event continues beyond these bounds (outside the visible hours or on another day) */
+  continuationEdges?: Array<'top' | 'right' | 'bottom' | 'left'>;
 }
 
 /**
@@ -74,12 +76,34 @@ export interface EventLayout {
  */
 export interface DayLayout {
   day: DayOfWeek;
-  /** Header bounds */
+  /** Header bounds (the day name, without resource headers) */
   headerBounds: Rect;
   /** Content area bounds (where events go) */
   contentBounds: Rect;
   /** Day index (0-based) in visible days */
   index: number;
+  /** Resource headers under (vertical) or next to (horizontal) the day header, when resources are configured */
+  resourceHeaders?: ResourceHeaderLayout[];
+}
+
+/**
+ * Computed layout for the header of a resource within a day
+ */
+export interface ResourceHeaderLayout {
+  resource: ScheduleResource;
+  /** Header bounds; the resource's share of the day content lines up with them */
+  bounds: Rect;
+}
+
+/**
+ * Computed layout for a shaded background range in one day
+ */
+export interface BackgroundLayout {
+  day: DayOfWeek;
+  /** Bounds of the range, clipped to the visible time axis */
+  bounds: Rect;
+  /** Configured range */
+  background: BackgroundRange;
 }
 
 /**
@@ -88,8 +112,12 @@ export interface DayLayout {
 export interface TimeSlotLayout {
   /** Time in minutes from midnight */
   timeMinutes: number;
-  /** Formatted time string */
+  /** Length of the slot in minutes, shorter for a first or last slot cut by visibleStart/visibleEnd */
+  durationMinutes: number;
+  /** Formatted time string, empty on slots between labelInterval steps */
   label: string;
+  /** Formatted time in the secondary time zone, when configured */
+  secondaryLabel?: string;
   /** Label bounds */
   labelBounds: Rect;
   /** Grid line position */
@@ -125,9 +153,15 @@ export interface ScheduleLayout {
   
   /** Layout for each event */
   events: EventLayout[];
+
+  /** Shaded background ranges (config.backgrounds), drawn beneath events */
+  backgrounds: BackgroundLayout[];
   
   /** Current orientation */
   orientation: ScheduleOrientation;
+
+  /** Writing direction; right-to-left layouts are mirrored horizontally */
+  direction: ScheduleDirection;
   
   /** Device pixel ratio for crisp rendering */
   devicePixelRatio: number;
@@ -252,6 +286,7 @@ export interface CanvasTheme {
   // Text colors
   headerTextColor: Color;
   timeTextColor: Color;
+  secondaryTimeTextColor: Color;
   eventTextColor: Color;
   
   // Event colors
@@ -259,6 +294,14 @@ export interface CanvasTheme {
   eventHoverBorderColor: Color;
   overflowIndicatorColor: Color;
   
+  // Background ranges
+  backgroundRangeColor: Color;
+  unavailableColor: Color;
+  backgroundLabelColor: Color;
+  
+  // Now indicator
+  nowIndicatorColor: Color;
+  
   // Interaction colors
   hoverHighlightColor: Color;
   selectionColor: Color;
@@ -325,6 +368,57 @@ export interface InteractionState {
   cursor: string;
 }
 
+/**
+ * Snapped target of a drag interaction
+ */
+export interface DragTarget {
+  day: DayOfWeek;
+  /** Start in minutes since midnight */
+  startMinutes: number;
+  /** End in minutes since midnight */
+  endMinutes: number;
+}
+
+/**
+ * State of an in-progress pointer drag on an event
+ */
+export interface DragState {
+  /** Whether the whole event is moved or one of its edges is resized */
+  mode: 'move' | 'resize';
+  /** Edge being resized (resize mode only) */
+  edge?: 'start' | 'end';
+  /** Layout of the event being dragged */
+  eventLayout: EventLayout;
+  /** Pointer position where the drag started */
+  origin: Point;
+  /** Current pointer position */
+  current: Point;
+  /** Minutes between the event start and the grabbed point */
+  grabOffsetMinutes: number;
+  /** Whether the pointer moved past the drag threshold */
+  active: boolean;
+  /** Snapped drop target, null while outside the grid */
+  target: DragTarget | null;
+}
+
+/**
+ * State of an in-progress pointer drag across empty grid time
+ */
+export interface SlotSelectionState {
+  /** Day the selection started on (selections never span days) */
+  day: DayOfWeek;
+  /** Start of the slot under the initial press, in minutes since midnight */
+  anchorMinutes: number;
+  /** Pointer position where the selection started */
+  origin: Point;
+  /** Current pointer position */
+  current: Point;
+  /** Whether the pointer moved past the drag threshold */
+  active: boolean;
+  /** Snapped selected range */
+  target: DragTarget;
+}
+
 /**
  * Callback for render completion
  */
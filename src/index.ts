@@ -1,5 +1,8 @@
+// DOM-based schedule component
+export { WeeklySchedule } from './WeeklySchedule';
+
 // Canvas-based schedule component
-export { WeeklySchedule, type WeeklyScheduleConfig, type CanvasConfig } from './WeeklySchedule';
+export { CanvasWeeklySchedule, type CanvasScheduleConfig, type CanvasConfig } from './CanvasWeeklySchedule';
 
 // Canvas utilities (for advanced usage)
 export { CanvasRenderer } from './canvas/CanvasRenderer';
@@ -8,8 +11,36 @@ export { GridRenderer, type GridRendererConfig } from './canvas/GridRenderer';
 export { EventRenderer, type EventRendererConfig } from './canvas/EventRenderer';
 export { HitTester } from './canvas/HitTester';
 export { AnimationManager } from './canvas/AnimationManager';
+export { AccessibilityLayer, type AccessibilityConfig } from './canvas/AccessibilityLayer';
 export { TextRenderer } from './canvas/TextRenderer';
 export type * from './canvas/types';
 
+// Recurrence rules
+export { parseRRule, expandRecurrence, expandRecurrenceForWeek } from './utils/recurrence';
+
+// iCalendar import/export
+export { exportICalendar, importICalendar } from './utils/ical';
+
+// JSON serialization
+export {
+  serializeSchedule,
+  deserializeSchedule,
+  serializeEvent,
+  deserializeEvent,
+  deserializeEvents,
+  serializeConfig,
+  deserializeConfig
+} from './utils/serialization';
+
+// Time zones
+export { convertEventsToTimeZone, convertTimeRange, getLocalTimeZone, isValidTimeZone } from './utils/timeZone';
+
+// Time formatting
+export { createTimeFormatter, formatTimeOfDay, getLocaleTimeFormat } from './utils/timeFormat';
+
+// Localization
+export { createTranslator, getElementDirection, getLocaleDayNames, getLocalePack, interpolate, resolveDayNames } from './utils/i18n';
+export { LOCALE_PACKS } from './locales';
+
 // Shared types
-export * from './types';
\ No newline at end of file
+export * from './types';
@@ -0,0 +1,24 @@
+import { TranslationKey, type Translations } from '../types';
+
+/**
+ * Czech strings
+ */
+export const cs: Translations = {
+  [TranslationKey.mobileNoEvents]: 'Pro tento den nejsou žádné události.',
+  [TranslationKey.zoomToDay]: 'Přiblížit {day}',
+  [TranslationKey.returnToWeek]: 'Zpět na celý týden',
+  [TranslationKey.previousDay]: 'Předchozí den',
+  [TranslationKey.nextDay]: 'Další den',
+  [TranslationKey.backToWeek]: 'Zpět na týden',
+  [TranslationKey.overflowMore]: '+{count} další',
+  [TranslationKey.overflowZoom]: 'Zobrazit všechny překrývající se události ({start} - {end})',
+  [TranslationKey.overflowShow]: 'Zobrazit všechny překrývající se události ({start} - {end})',
+  [TranslationKey.overflowPopoverLabel]: 'Skryté události ({start} - {end})',
+  [TranslationKey.scheduleLabel]: 'Týdenní rozvrh',
+  [TranslationKey.dayColumnLabel]: 'Sloupec dne {day}',
+  [TranslationKey.noEventsOnDay]: 'Žádné události v den {day}',
+  [TranslationKey.eventTimeRange]: 'od {start} do {end}',
+  [TranslationKey.eventTimeRangeNextDay]: 'od {start} do {end} následujícího dne',
+  [TranslationKey.viewingDay]: 'Zobrazen den {day}',
+  [TranslationKey.viewingWeek]: 'Zobrazen celý týden'
+};
@@ -0,0 +1,24 @@
+import { TranslationKey, type Translations } from '../types';
+
+/**
+ * German strings
+ */
+export const de: Translations = {
+  [TranslationKey.mobileNoEvents]: 'Keine Termine an diesem Tag.',
+  [TranslationKey.zoomToDay]: '{day} vergrößern',
+  [TranslationKey.returnToWeek]: 'Zurück zur ganzen Woche',
+  [TranslationKey.previousDay]: 'Vorheriger Tag',
+  [TranslationKey.nextDay]: 'Nächster Tag',
+  [TranslationKey.backToWeek]: 'Zurück zur Woche',
+  [TranslationKey.overflowMore]: '+{count} weitere',
+  [TranslationKey.overflowZoom]: 'Alle überlappenden Termine anzeigen ({start} - {end})',
+  [TranslationKey.overflowShow]: 'Alle überlappenden Termine anzeigen ({start} - {end})',
+  [TranslationKey.overflowPopoverLabel]: 'Ausgeblendete Termine ({start} - {end})',
+  [TranslationKey.scheduleLabel]: 'Wochenplan',
+  [TranslationKey.dayColumnLabel]: 'Spalte {day}',
+  [TranslationKey.noEventsOnDay]: 'Keine Termine am {day}',
+  [TranslationKey.eventTimeRange]: '{start} bis {end}',
+  [TranslationKey.eventTimeRangeNextDay]: '{start} bis {end} am nächsten Tag',
+  [TranslationKey.viewingDay]: 'Ansicht: {day}',
+  [TranslationKey.viewingWeek]: 'Ansicht: ganze Woche'
+};
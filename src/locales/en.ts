@@ -0,0 +1,24 @@
+import { TranslationKey, type Translations } from '../types';
+
+/**
+ * English strings
+ */
+export const en: Translations = {
+  [TranslationKey.mobileNoEvents]: 'No events for this day.',
+  [TranslationKey.zoomToDay]: 'Zoom to {day}',
+  [TranslationKey.returnToWeek]: 'Return to full week',
+  [TranslationKey.previousDay]: 'Previous day',
+  [TranslationKey.nextDay]: 'Next day',
+  [TranslationKey.backToWeek]: 'Back to week',
+  [TranslationKey.overflowMore]: '+{count} more',
+  [TranslationKey.overflowZoom]: 'Zoom to view all overlapping events ({start} - {end})',
+  [TranslationKey.overflowShow]: 'Show all overlapping events ({start} - {end})',
+  [TranslationKey.overflowPopoverLabel]: 'Hidden events ({start} - {end})',
+  [TranslationKey.scheduleLabel]: 'Weekly schedule',
+  [TranslationKey.dayColumnLabel]: '{day} Day column',
+  [TranslationKey.noEventsOnDay]: 'No events on {day}',
+  [TranslationKey.eventTimeRange]: '{start} to {end}',
+  [TranslationKey.eventTimeRangeNextDay]: '{start} to {end} the next day',
+  [TranslationKey.viewingDay]: 'Viewing {day}',
+  [TranslationKey.viewingWeek]: 'Viewing full week'
+};
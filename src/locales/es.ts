@@ -0,0 +1,24 @@
+import { TranslationKey, type Translations } from '../types';
+
+/**
+ * Spanish strings
+ */
+export const es: Translations = {
+  [TranslationKey.mobileNoEvents]: 'No hay eventos para este día.',
+  [TranslationKey.zoomToDay]: 'Ampliar {day}',
+  [TranslationKey.returnToWeek]: 'Volver a la semana completa',
+  [TranslationKey.previousDay]: 'Día anterior',
+  [TranslationKey.nextDay]: 'Día siguiente',
+  [TranslationKey.backToWeek]: 'Volver a la semana',
+  [TranslationKey.overflowMore]: '+{count} más',
+  [TranslationKey.overflowZoom]: 'Ver todos los eventos superpuestos ({start} - {end})',
+  [TranslationKey.overflowShow]: 'Mostrar todos los eventos superpuestos ({start} - {end})',
+  [TranslationKey.overflowPopoverLabel]: 'Eventos ocultos ({start} - {end})',
+  [TranslationKey.scheduleLabel]: 'Horario semanal',
+  [TranslationKey.dayColumnLabel]: 'Columna de {day}',
+  [TranslationKey.noEventsOnDay]: 'No hay eventos el {day}',
+  [TranslationKey.eventTimeRange]: 'de {start} a {end}',
+  [TranslationKey.eventTimeRangeNextDay]: 'de {start} a {end} del día siguiente',
+  [TranslationKey.viewingDay]: 'Viendo {day}',
+  [TranslationKey.viewingWeek]: 'Viendo la semana completa'
+};
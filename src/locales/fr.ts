@@ -0,0 +1,24 @@
+import { TranslationKey, type Translations } from '../types';
+
+/**
+ * French strings
+ */
+export const fr: Translations = {
+  [TranslationKey.mobileNoEvents]: 'Aucun événement ce jour.',
+  [TranslationKey.zoomToDay]: 'Zoomer sur {day}',
+  [TranslationKey.returnToWeek]: 'Revenir à la semaine complète',
+  [TranslationKey.previousDay]: 'Jour précédent',
+  [TranslationKey.nextDay]: 'Jour suivant',
+  [TranslationKey.backToWeek]: 'Retour à la semaine',
+  [TranslationKey.overflowMore]: '+{count} de plus',
+  [TranslationKey.overflowZoom]: 'Voir tous les événements qui se chevauchent ({start} - {end})',
+  [TranslationKey.overflowShow]: 'Afficher tous les événements qui se chevauchent ({start} - {end})',
+  [TranslationKey.overflowPopoverLabel]: 'Événements masqués ({start} - {end})',
+  [TranslationKey.scheduleLabel]: 'Planning hebdomadaire',
+  [TranslationKey.dayColumnLabel]: 'Colonne {day}',
+  [TranslationKey.noEventsOnDay]: 'Aucun événement le {day}',
+  [TranslationKey.eventTimeRange]: 'de {start} à {end}',
+  [TranslationKey.eventTimeRangeNextDay]: 'de {start} à {end} le lendemain',
+  [TranslationKey.viewingDay]: 'Affichage : {day}',
+  [TranslationKey.viewingWeek]: 'Affichage : semaine complète'
+};
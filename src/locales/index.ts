@@ -0,0 +1,13 @@
+import type { Translations } from '../types';
+import { cs } from './cs';
+import { de } from './de';
+import { en } from './en';
+import { es } from './es';
+import { fr } from './fr';
+
+export { cs, de, en, es, fr };
+
+/**
+ * Built-in string packs by language subtag (the "cs" of "cs-CZ")
+ */
+export const LOCALE_PACKS: Readonly<Record<string, Translations>> = { cs, de, en, es, fr };
@@ -1,27 +1,37 @@
-import type { DayOfWeek, IconConfig } from '../types';
-import { getDayName, ScheduleOrientation } from '../types';
+import type { DayOfWeek, IconConfig, ScheduleResource, Translator } from '../types';
+import { getDayName, ScheduleDirection, ScheduleOrientation, TranslationKey } from '../types';
 import type { DayNameTranslations } from '../types';
+import type { AxisRange, BackgroundSegment } from '../types/internal';
+import { createTranslator } from '../utils/i18n';
+import { timeToAxisOffset } from '../utils/layoutHelpers';
+import { escapeHTML } from './eventTemplate';
 
 /**
  * Create HTML for a day header (simple div, no positioning)
  * @param day - Day of week enum value
  * @param translations - Optional day name translations (defaults to English)
+ * @param dateLabel - Optional formatted date shown next to the day name (date-anchored weeks)
+ * @param translate - Optional translator for ARIA labels (defaults to English)
  * @returns HTML string for day header
  */
 export function createDayHeaderHTML(
   day: DayOfWeek,
   translations?: DayNameTranslations,
   selectedDay?: DayOfWeek | null,
-  icons?: IconConfig
+  icons?: IconConfig,
+  dateLabel?: string,
+  translate: Translator = createTranslator({})
 ): string {
   const dayName = getDayName(day, translations);
   const isSelected = selectedDay === day;
   const selectedClass = isSelected ? ' selected' : '';
   const selectedAttr = isSelected ? ' data-selected="1"' : '';
-  const ariaLabel = isSelected ? `Return to full week` : `Zoom to ${dayName}`;
+  const ariaLabel = isSelected
+    ? translate(TranslationKey.returnToWeek)
+    : translate(TranslationKey.zoomToDay, { day: dayName });
   const iconText = isSelected ? (icons?.unzoom ?? '↺') : (icons?.zoom ?? '🔍');
   const iconClassAttr = icons?.className ? ` ${icons.className}` : '';
-  return `<div class="day-header${selectedClass}" role="button" tabindex="0" aria-label="${ariaLabel}" data-day="${day}"${selectedAttr}><span class="day-header-label">${dayName}</span><span class="day-header-icon${iconClassAttr}" aria-hidden="true">${iconText}</span></div>`;
+  return `<div class="day-header${selectedClass}" role="button" tabindex="0" aria-label="${ariaLabel}" data-day="${day}"${selectedAttr}><span class="day-header-label">${dayName}</span>${createDateLabelHTML(dateLabel)}<span class="day-header-icon${iconClassAttr}" aria-hidden="true">${iconText}</span></div>`;
 }
 
 /**
@@ -31,6 +41,9 @@ export function createDayHeaderHTML(
  * @param translations - Optional day name translations (defaults to English)
  * @param orientation - Schedule orientation (affects button direction)
  * @param icons - Optional icon configuration
+ * @param dateLabel - Optional formatted date shown next to the day name (date-anchored weeks)
+ * @param translate - Optional translator for ARIA labels (defaults to English)
+ * @param direction - Optional writing direction; right-to-left swaps the ←/→ default icons
  * @returns HTML string for zoomed day header with navigation
  */
 export function createZoomedDayHeaderHTML(
@@ -38,7 +51,10 @@ export function createZoomedDayHeaderHTML(
   visibleDays: DayOfWeek[],
   translations?: DayNameTranslations,
   orientation?: ScheduleOrientation,
-  icons?: IconConfig
+  icons?: IconConfig,
+  dateLabel?: string,
+  translate: Translator = createTranslator({}),
+  direction?: ScheduleDirection
 ): string {
   const dayName = getDayName(day, translations);
   
@@ -47,10 +63,12 @@ export function createZoomedDayHeaderHTML(
   const prevDay = currentIndex > 0 ? visibleDays[currentIndex - 1] : null;
   const nextDay = currentIndex < visibleDays.length - 1 ? visibleDays[currentIndex + 1] : null;
   
-  // Determine button symbols based on orientation and icon config
+  // Determine button symbols based on orientation, direction and icon config
+  // (right-to-left puts the previous day on the right)
   const isHorizontal = orientation === ScheduleOrientation.Horizontal;
-  const prevSymbol = icons?.prevDay ?? (isHorizontal ? '↑' : '←');
-  const nextSymbol = icons?.nextDay ?? (isHorizontal ? '↓' : '→');
+  const isRtl = direction === ScheduleDirection.RightToLeft;
+  const prevSymbol = icons?.prevDay ?? (isHorizontal ? '↑' : isRtl ? '→' : '←');
+  const nextSymbol = icons?.nextDay ?? (isHorizontal ? '↓' : isRtl ? '←' : '→');
   
   const isPrevDisabled = prevDay === null;
   const isNextDisabled = nextDay === null;
@@ -62,17 +80,96 @@ export function createZoomedDayHeaderHTML(
   
   return `
     <div class="zoomed-day-header">
-      <button type="button" class="nav-btn nav-btn-prev" data-action="prev-day"${prevDayAttr} aria-label="Previous day"${prevDisabledAttr}>
+      <button type="button" class="nav-btn nav-btn-prev" data-action="prev-day"${prevDayAttr} aria-label="${translate(TranslationKey.previousDay)}"${prevDisabledAttr}>
         ${prevSymbol}
       </button>
-      <div class="day-label-container" data-action="unzoom" role="button" tabindex="0" aria-label="Back to week">
-        <span class="day-header-label">${dayName}</span>
+      <div class="day-label-container" data-action="unzoom" role="button" tabindex="0" aria-label="${translate(TranslationKey.backToWeek)}">
+        <span class="day-header-label">${dayName}</span>${createDateLabelHTML(dateLabel)}
       </div>
-      <button type="button" class="nav-btn nav-btn-next" data-action="next-day"${nextDayAttr} aria-label="Next day"${nextDisabledAttr}>
+      <button type="button" class="nav-btn nav-btn-next" data-action="next-day"${nextDayAttr} aria-label="${translate(TranslationKey.nextDay)}"${nextDisabledAttr}>
         ${nextSymbol}
       </button>
     </div>
   `;
 }
 
+/**
+ * Create HTML for the date label of a day header (empty when not date-anchored)
+ * @param dateLabel - Formatted date (e.g., "14 Oct")
+ * @returns HTML string for the date label
+ */
+export function createDateLabelHTML(dateLabel?: string): string {
+  return dateLabel ? `<span class="day-header-date">${dateLabel}</span>` : '';
+}
+
+/**
+ * Create HTML for a shaded background range in one day's cell of the events grid
+ * @param segment - Background range placed on the day's time axis
+ * @param dayIndex - Index of the day among the visible days
+ * @param axis - Visible part of the time axis
+ * @param orientation - Orientation of the schedule
+ * @returns HTML string for the background range (beneath events, hidden from screen readers)
+ */
+export function createBackgroundHTML(
+  segment: BackgroundSegment,
+  dayIndex: number,
+  axis: AxisRange,
+  orientation: ScheduleOrientation
+): string {
+  const { background } = segment;
+  const start = timeToAxisOffset(segment.startMinutes, axis) * 100;
+  const size = timeToAxisOffset(segment.endMinutes, axis) * 100 - start;
+  const style = orientation === ScheduleOrientation.Horizontal
+    ? `grid-row: ${dayIndex + 1} / ${dayIndex + 2}; grid-column: 1 / -1; inset-inline-start: ${start}%; width: ${size}%;`
+    : `grid-column: ${dayIndex + 1} / ${dayIndex + 2}; grid-row: 1 / -1; top: ${start}%; height: ${size}%;`;
+  const className = `schedule-background${background.unavailable ? ' schedule-background-unavailable' : ''} ${background.className ?? ''}`.trim();
+  const labelHtml = background.label
+    ? `<span class="schedule-background-label">${escapeHTML(background.label)}</span>`
+    : '';
+  return `<div class="${className}" aria-hidden="true" style="${style}">${labelHtml}</div>`;
+}
+
+/**
+ * Create HTML for the resource headers of one day, listing resources in order
+ * @param resources - Resources shown side by side within the day
+ * @returns HTML string for the resource headers (empty without resources)
+ */
+export function createResourceHeadersHTML(resources: ScheduleResource[]): string {
+  if (resources.length === 0) return '';
+  const headers = resources
+    .map(resource => `<div class="resource-header">${escapeHTML(resource.name)}</div>`)
+    .join('');
+  return `<div class="resource-headers">${headers}</div>`;
+}
+
+/**
+ * Wrap a day header with the resource headers of the day (no wrapper without resources)
+ * @param dayHeaderHtml - Day header or zoomed day header HTML
+ * @param resources - Resources shown side by side within the day
+ * @returns HTML string for the day header group
+ */
+export function createDayHeaderGroupHTML(dayHeaderHtml: string, resources: ScheduleResource[]): string {
+  if (resources.length === 0) return dayHeaderHtml;
+  return `<div class="day-header-group">${dayHeaderHtml}${createResourceHeadersHTML(resources)}</div>`;
+}
 
+/**
+ * Create HTML for the divider between two resources in one day's cell of the events grid
+ * @param dayIndex - Index of the day among the visible days
+ * @param resourceIndex - Index of the resource starting at the divider (1 or more)
+ * @param resourceCount - Number of resources sharing the day
+ * @param orientation - Orientation of the schedule
+ * @returns HTML string for the divider (hidden from screen readers)
+ */
+export function createResourceDividerHTML(
+  dayIndex: number,
+  resourceIndex: number,
+  resourceCount: number,
+  orientation: ScheduleOrientation
+): string {
+  const offset = (resourceIndex / resourceCount) * 100;
+  const style = orientation === ScheduleOrientation.Horizontal
+    ? `grid-row: ${dayIndex + 1} / ${dayIndex + 2}; grid-column: 1 / -1; top: ${offset}%;`
+    : `grid-column: ${dayIndex + 1} / ${dayIndex + 2}; grid-row: 1 / -1; inset-inline-start: ${offset}%;`;
+  return `<div class="resource-divider" aria-hidden="true" style="${style}"></div>`;
+}
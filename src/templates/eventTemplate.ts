@@ -1,4 +1,6 @@
-import { EventFragment, ScheduleOrientation, type LaneInfo, type RenderContext, type ScheduleEvent, type TimeOnly } from '../types';
+import { EventFragment, OverflowBehavior, ScheduleOrientation, TranslationKey, type LaneInfo, type OverflowCluster, type RenderContext, type ScheduleEvent, type TimeFormatter } from '../types';
+import type { AxisSegment, OverflowIndicator } from '../types/internal';
+import { getAxisEndMinutes, getAxisStartMinutes } from '../utils/layoutHelpers';
 
 /**
  * Escape HTML special characters to prevent XSS attacks
@@ -12,25 +14,86 @@ export function escapeHTML(str: string): string {
 }
 
 /**
- * Calculate event duration in minutes
- * @param startTime - Start TimeOnly
- * @param endTime - End TimeOnly
+ * Calculate the rendered event duration in minutes
+ * @param event - Event, or the part of an overnight event shown in one day column
  * @returns Duration in minutes
  */
-function calculateEventDuration(startTime: TimeOnly, endTime: TimeOnly): number {
-  return endTime.toMinutes() - startTime.toMinutes();
+function calculateEventDuration(event: ScheduleEvent): number {
+  return getAxisEndMinutes(event) - getAxisStartMinutes(event);
 }
 
+/**
+ * CSS classes marking the edges where an event continues beyond its rendered part
+ * (before/after the visible hours or into another day)
+ */
+function getContinuationClassName(event: ScheduleEvent): string {
+  const { continuesBefore, continuesAfter } = event as Partial<AxisSegment>;
+  return `${continuesBefore ? ' event-continues-before' : ''}${continuesAfter ? ' event-continues-after' : ''}`;
+}
+
+/**
+ * Number of lanes as narrow as the event, for picking how much content fits
+ * An event widened over several lanes (LaneLayout.Expand) counts as one of fewer lanes.
+ */
+function getLaneCount(laneInfo?: LaneInfo): number {
+  if (!laneInfo) return 1;
+  return Math.ceil(laneInfo.totalLanes / (laneInfo.laneSpan ?? 1));
+}
+
+/**
+ * Create HTML for an overflow indicator
+ * The element is found again by its data-overflow-id, never by class names or event ids.
+ * @param event - Overflow indicator event
+ * @param renderContext - Render context
+ * @param behavior - What clicking the indicator does, which decides its ARIA label (default: zoom)
+ * @param renderOverflow - Optional custom renderer for the indicator content
+ * @returns HTML string for the indicator element
+ */
 export function createOverflowIndicatorHTML(
-  event: ScheduleEvent, 
-  laneInfo?: LaneInfo
+  event: OverflowIndicator, 
+  renderContext: RenderContext,
+  behavior: OverflowBehavior = OverflowBehavior.Zoom,
+  renderOverflow?: (cluster: OverflowCluster, context: RenderContext) => string
 ): string {
+  const { laneInfo, formatTime, translate } = renderContext;
+  const cluster = event.overflowCluster;
   const padding = laneInfo && laneInfo.totalLanes > 2 ? '0px' : '4px';
-  const classNameOverflow = `event ${event.className}`.trim();
+  const content = renderOverflow
+    ? renderOverflow(cluster, renderContext)
+    : `<div class="event-title" style="text-align:center; width:100%">${escapeHTML(event.title)}</div>`;
+  const ariaLabel = translate(behavior === OverflowBehavior.Zoom ? TranslationKey.overflowZoom : TranslationKey.overflowShow, {
+    start: formatTime(event.startTime),
+    end: formatTime(event.endTime)
+  });
+  const popupAttr = behavior === OverflowBehavior.Popover ? ' aria-haspopup="dialog"' : '';
+
+  return `
+    <div class="event event-overflow-indicator" data-overflow-id="${cluster.id}" style="padding: ${padding};" data-overflow-behavior="${behavior}" role="button" tabindex="0" aria-label="${ariaLabel}"${popupAttr}>
+      ${content}
+    </div>
+  `;
+}
+
+/**
+ * Create HTML for the popover listing the hidden events of an overflow indicator
+ * @param events - Hidden events, in start order
+ * @param label - ARIA label of the popover
+ * @param formatTime - Formats the event times
+ * @returns HTML string for the popover element
+ */
+export function createOverflowPopoverHTML(events: ScheduleEvent[], label: string, formatTime: TimeFormatter): string {
+  const items = events.map(event => `
+      <li>
+        <button type="button" class="overflow-popover-item" data-event-id="${event.id}" tabindex="-1">
+          <span class="overflow-popover-time">${formatTime(event.startTime)} - ${formatTime(event.endTime)}</span>
+          <span class="overflow-popover-title">${escapeHTML(event.title)}</span>
+        </button>
+      </li>`).join('');
 
   return `
-    <div class="${classNameOverflow}" data-event-id="${event.id}" style="padding: ${padding};" role="button" aria-label="Zoom to view all overlapping events">
-      <div class="event-title" style="text-align:center; width:100%">${escapeHTML(event.title)}</div>
+    <div class="overflow-popover" role="dialog" aria-label="${label}">
+      <ul class="overflow-popover-list">${items}
+      </ul>
     </div>
   `;
 }
@@ -62,7 +125,7 @@ export function createEventHTML(
     style = eventFragment.style || '';
   }
      
-  const clasName = `event ${event.className || ''}`.trim();
+  const clasName = `event${getContinuationClassName(event)} ${event.className || ''}`.trim();
   if (event.style) {
     style += ` ${event.style}`;
   }
@@ -82,19 +145,20 @@ function createEventContentDefault(
   event: ScheduleEvent,
   renderContext: RenderContext
 ): EventFragment {
-  const lanes = renderContext.laneInfo?.totalLanes ?? 1;
-  const durationMinutes = calculateEventDuration(event.startTime, event.endTime);
+  const lanes = getLaneCount(renderContext.laneInfo);
+  const durationMinutes = calculateEventDuration(event);
   const isShortEvent = durationMinutes <= 60;
   const showDescription = event.description && !isShortEvent;
   let showTime = true;
-  let timeString = `${event.startTime.toString()} - ${event.endTime.toString()}`;
+  const { formatTime } = renderContext;
+  let timeString = `${formatTime(event.startTime)} - ${formatTime(event.endTime)}`;
   let titleStyle = '';
   let style = '';
 
   if (lanes === 2) {
     style += `padding: 4px;`;
     if (durationMinutes < 60) {
-      timeString = `${event.startTime.toString()}`;
+      timeString = formatTime(event.startTime);
     }
   }
   else if (lanes > 2) {
@@ -120,7 +184,7 @@ function createEventContentHorizontalDefault(
   event: ScheduleEvent,
   renderContext: RenderContext
 ): EventFragment {
-  const lanes = renderContext.laneInfo?.totalLanes ?? 1;
+  const lanes = getLaneCount(renderContext.laneInfo);
     let showTime = true;
     let titleString = escapeHTML(event.title);
     
@@ -130,7 +194,7 @@ function createEventContentHorizontalDefault(
     
     const content = `
         <div class="event-title">${titleString}</div>
-        ${showTime ? `<div class="event-time">${event.startTime.toString()} - ${event.endTime.toString()}</div>` : ''}
+        ${showTime ? `<div class="event-time">${renderContext.formatTime(event.startTime)} - ${renderContext.formatTime(event.endTime)}</div>` : ''}
       `;
     
     return {
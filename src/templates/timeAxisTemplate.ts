@@ -1,32 +1,60 @@
-import { TimeSlotInterval, Hour, TimeOnly } from '../types';
+import { ScheduleOrientation, TimeOnly, type TimeFormatter } from '../types';
+import type { AxisRange } from '../types/internal';
+import { getAxisSlots, MINUTES_PER_DAY } from '../utils/layoutHelpers';
 
-export function createTimeLabelHTML(time: TimeOnly): string {
-  return `<div class="time-label" data-hours="${time.hours}" data-minutes="${time.minutes}">${time.toString()}</div>`;
+/**
+ * Time axis label, optionally with the same time in a secondary time zone
+ * Unlabeled slots (between labelInterval steps) render an empty cell that keeps the axis aligned.
+ * @param size - Length of the slot in slots, below 1 for a shortened first or last slot
+ */
+export function createTimeLabelHTML(
+  time: TimeOnly,
+  formatTime: TimeFormatter,
+  secondaryTime?: TimeOnly,
+  labeled = true,
+  size = 1
+): string {
+  const sizeStyle = size !== 1 ? ` style="--slot-size: ${size}"` : '';
+  if (!labeled) {
+    return `<div class="time-label time-label-empty" data-hours="${time.hours}" data-minutes="${time.minutes}"${sizeStyle}></div>`;
+  }
+  const secondaryHtml = secondaryTime
+    ? `<span class="time-label-secondary">${formatTime(secondaryTime)}</span>`
+    : '';
+  return `<div class="time-label" data-hours="${time.hours}" data-minutes="${time.minutes}"${sizeStyle}>${formatTime(time)}${secondaryHtml}</div>`;
 }
 
+/**
+ * Placeholder for time axis slots that are not rendered, sized like the slots it replaces
+ * @param sizes - Lengths of the replaced slots in slots
+ */
+export function createTimeAxisSpacerHTML(sizes: number[]): string {
+  if (sizes.length === 0) return '';
+  const size = sizes.reduce((sum, slotSize) => sum + slotSize, 0);
+  return `<div class="time-label-spacer" aria-hidden="true" style="--slot-size: ${size}; grid-row: span ${sizes.length}"></div>`;
+}
 
-export function generateTimeSlots(startHour: Hour, endHour: Hour, timeSlotInterval: TimeSlotInterval): TimeOnly[] {
-  const slots: TimeOnly[] = [];
-
-  for (let hour = startHour; hour <= endHour; hour++) {
-    if (timeSlotInterval === TimeSlotInterval.SixtyMinutes) {
-      slots.push(new TimeOnly(hour as Hour, 0));
-    }
-    else if (timeSlotInterval === TimeSlotInterval.ThirtyMinutes) {
-      slots.push(new TimeOnly(hour as Hour, 0));
-      if (hour < endHour) {
-        slots.push(new TimeOnly(hour as Hour, 30));
-      }
-    }
-    else if (timeSlotInterval === TimeSlotInterval.FifteenMinutes) {
-      slots.push(new TimeOnly(hour as Hour, 0));
-      if (hour < endHour) {
-        slots.push(new TimeOnly(hour as Hour, 15));
-        slots.push(new TimeOnly(hour as Hour, 30));
-        slots.push(new TimeOnly(hour as Hour, 45));
-      }
-    }
-  }
+/**
+ * Generate the start time of every time axis slot
+ * Times past midnight wrap to the next day's clock time (e.g., 26:00 => 02:00)
+ * @param axis - Visible part of the time axis
+ * @param timeSlotInterval - Slot length in minutes
+ */
+export function generateTimeSlots(axis: AxisRange, timeSlotInterval: number): TimeOnly[] {
+  return getAxisSlots(axis, timeSlotInterval)
+    .map(slot => TimeOnly.fromMinutes(slot.startMinutes % MINUTES_PER_DAY));
+}
 
-  return slots; 
+/**
+ * Current time marker across one day's cell of the events grid
+ * @param dayIndex - Index of the day among the visible days
+ * @param offset - Position on the time axis from 0 (start) to 1 (end)
+ * @param orientation - Orientation of the schedule, which decides the direction of the line
+ */
+export function createNowIndicatorHTML(dayIndex: number, offset: number, orientation: ScheduleOrientation): string {
+  const percent = offset * 100;
+  const style = orientation === ScheduleOrientation.Horizontal
+    ? `grid-row: ${dayIndex + 1} / ${dayIndex + 2}; grid-column: 1 / -1; inset-inline-start: ${percent}%;`
+    : `grid-column: ${dayIndex + 1} / ${dayIndex + 2}; grid-row: 1 / -1; top: ${percent}%;`;
+  return `<div class="now-indicator" aria-hidden="true" style="${style}"></div>`;
 }
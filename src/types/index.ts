@@ -1,9 +1,17 @@
+import type { Result } from './internal';
+
 /**
  * Hour type: valid hour values (0-23)
  * Provides compile-time type safety for hour values
  */
 export type Hour = 0 | 1 | 2 | 3 | 4 | 5 | 6 | 7 | 8 | 9 | 10 | 11 | 12 | 13 | 14 | 15 | 16 | 17 | 18 | 19 | 20 | 21 | 22 | 23;
 
+/**
+ * Extended hour type for the end of the time axis (0-48)
+ * Values above 24 continue into the next day (e.g., 30 => 06:00 the next day)
+ */
+export type ExtendedHour = Hour | 24 | 25 | 26 | 27 | 28 | 29 | 30 | 31 | 32 | 33 | 34 | 35 | 36 | 37 | 38 | 39 | 40 | 41 | 42 | 43 | 44 | 45 | 46 | 47 | 48;
+
 /**
  * Minute type: valid minute values (0-59)
  * Provides compile-time type safety for minute values
@@ -13,21 +21,69 @@ export type Minute = 0 | 1 | 2 | 3 | 4 | 5 | 6 | 7 | 8 | 9 | 10 | 11 | 12 | 13 |
 /**
  * Represents a time of day (hours and minutes) without date information
  * Immutable value object for time operations
+ * 24:00 is the end-of-day sentinel (see TimeOnly.endOfDay()), only valid as an event end time
  */
 export class TimeOnly {
-  readonly hours: Hour;
+  readonly hours: Hour | 24;
   readonly minutes: Minute;
 
   /**
    * Create a TimeOnly instance
-   * @param hours - Hour value (0-23) with compile-time type safety
+   * @param hours - Hour value (0-23, or 24 with 0 minutes for end of day) with compile-time type safety
    * @param minutes - Minute value (0-59) with compile-time type safety
    */
-  constructor(hours: Hour, minutes: Minute) {
+  constructor(hours: Hour | 24, minutes: Minute) {
     this.hours = hours;
     this.minutes = minutes;
   }
 
+  /**
+   * Create the 24:00 end-of-day sentinel, e.g. for events running until midnight
+   */
+  static endOfDay(): TimeOnly {
+    return new TimeOnly(24, 0);
+  }
+
+  /**
+   * Create a TimeOnly from total minutes since midnight
+   * @param totalMinutes - Minutes since midnight (e.g., 570 => 09:30, 1440 => 24:00)
+   */
+  static fromMinutes(totalMinutes: number): TimeOnly {
+    const hours = Math.floor(totalMinutes / 60);
+    const minutes = totalMinutes - hours * 60;
+    return new TimeOnly(hours as Hour | 24, minutes as Minute);
+  }
+
+  /**
+   * Parse a time from an "HH:mm" string (e.g., "09:30", "9:30", "24:00")
+   * @param value - Time string
+   * @returns Result containing the TimeOnly, or an error describing the invalid input
+   */
+  static parse(value: string): Result<TimeOnly, Error> {
+    const match = typeof value === 'string' ? /^(\d{1,2}):(\d{2})$/.exec(value.trim()) : null;
+    if (!match) {
+      return { success: false, error: new Error(`Invalid time "${value}", expected HH:mm`) };
+    }
+
+    const hours = Number(match[1]);
+    const minutes = Number(match[2]);
+    if (hours === 24 && minutes === 0) {
+      return { success: true, data: TimeOnly.endOfDay() };
+    }
+    if (hours > 23 || minutes > 59) {
+      return { success: false, error: new Error(`Invalid time "${value}", hours must be 0-23 and minutes 0-59 (or 24:00)`) };
+    }
+
+    return { success: true, data: new TimeOnly(hours as Hour, minutes as Minute) };
+  }
+
+  /**
+   * Serialize as an "HH:mm" string so JSON.stringify produces readable times
+   */
+  toJSON(): string {
+    return this.toString();
+  }
+
   /**
    * Format time as HH:mm string
    * @returns Formatted time string (e.g., "09:00", "14:30")
@@ -75,12 +131,28 @@ export class TimeOnly {
   equals(other: TimeOnly): boolean {
     return this.hours === other.hours && this.minutes === other.minutes;
   }
+
+  /**
+   * Check if this time is the 24:00 end-of-day sentinel
+   */
+  isEndOfDay(): boolean {
+    return this.hours === 24;
+  }
 }
 
+/**
+ * Common time slot lengths in minutes
+ * Any length dividing the time axis works as well (e.g., 20 or 90)
+ */
 export enum TimeSlotInterval {
+  FiveMinutes = 5,
+  TenMinutes = 10,
   FifteenMinutes = 15,
+  TwentyMinutes = 20,
   ThirtyMinutes = 30,
-  SixtyMinutes = 60
+  SixtyMinutes = 60,
+  NinetyMinutes = 90,
+  OneHundredTwentyMinutes = 120
 }
 
 /**
@@ -91,6 +163,41 @@ export enum ScheduleOrientation {
   Horizontal = 'horizontal' // Days as rows
 }
 
+/**
+ * Writing direction: order of the days (vertical) or of the time axis (horizontal)
+ */
+export enum ScheduleDirection {
+  LeftToRight = 'ltr', // First day / earliest time on the left (default)
+  RightToLeft = 'rtl'  // First day / earliest time on the right (Hebrew, Arabic)
+}
+
+/**
+ * How overlapping events share the width of a day
+ */
+export enum LaneLayout {
+  Equal = 'equal',  // Every event of an overlap group gets one lane (default)
+  Expand = 'expand' // Events widen into free lanes on their end side
+}
+
+/**
+ * What clicking an overflow indicator does
+ */
+export enum OverflowBehavior {
+  Zoom = 'zoom',       // Zoom to the day (default)
+  Popover = 'popover', // List the hidden events next to the indicator
+  Expand = 'expand'    // Show all lanes of the day in place, until the view changes
+}
+
+export enum TimeFormat {
+  TwelveHour = '12h',     // 9:30 AM
+  TwentyFourHour = '24h'  // 09:30
+}
+
+/**
+ * Turns a time into the text shown by time labels, event times and screen reader descriptions
+ */
+export type TimeFormatter = (time: TimeOnly) => string;
+
 export enum DayOfWeek {
   Monday = 0,
   Tuesday = 1,
@@ -125,6 +232,30 @@ export const WORK_WEEK_DAYS: readonly DayOfWeek[] = [
   DayOfWeek.Friday
 ] as const;
 
+/**
+ * Sunday-Thursday work week (Israel and much of the Middle East)
+ * Use with firstDayOfWeek: DayOfWeek.Sunday
+ */
+export const SUNDAY_WORK_WEEK_DAYS: readonly DayOfWeek[] = [
+  DayOfWeek.Sunday,
+  DayOfWeek.Monday,
+  DayOfWeek.Tuesday,
+  DayOfWeek.Wednesday,
+  DayOfWeek.Thursday
+] as const;
+
+/**
+ * Six-day work week (Monday-Saturday)
+ */
+export const SIX_DAY_WORK_WEEK_DAYS: readonly DayOfWeek[] = [
+  DayOfWeek.Monday,
+  DayOfWeek.Tuesday,
+  DayOfWeek.Wednesday,
+  DayOfWeek.Thursday,
+  DayOfWeek.Friday,
+  DayOfWeek.Saturday
+] as const;
+
 /**
  * Day name translations for localization
  * Default: English
@@ -165,13 +296,21 @@ export function getDayName(
 }
 
 /**
- * A recurring event that appears on a specific day of the week at a specific time.
- * This is NOT tied to any calendar date - it represents a pattern (e.g., "every Monday at 10:00").
+ * An event that appears on a specific day of the week at a specific time.
+ * Without a `date` it represents a weekly pattern (e.g., "every Monday at 10:00").
+ * With a `date` it belongs to that calendar day and is only shown when the schedule
+ * is anchored (see `ScheduleConfig.weekStartDate`) to the week containing it.
  */
 export interface ScheduleEvent {
   id: string;
   day: DayOfWeek;
 
+  /**
+   * Optional calendar date of the event (time of day is ignored)
+   * In a date-anchored schedule this takes precedence over `day`
+   */
+  date?: Date;
+
   /**
    * Start time of the event
    */
@@ -179,10 +318,30 @@ export interface ScheduleEvent {
 
   /**
    * End time of the event
-   * Must be after startTime
+   * Must be after startTime, unless `endsNextDay` is set.
+   * Use TimeOnly.endOfDay() (24:00) for events running until midnight.
    */
   endTime: TimeOnly;
 
+  /**
+   * Set for overnight events: endTime is on the following day (e.g., 22:00-06:00)
+   * endTime must then not be after startTime. Default: false
+   */
+  endsNextDay?: boolean;
+
+  /**
+   * IANA time zone the day and times are given in (e.g., "America/New_York")
+   * The event is converted to the schedule's `timeZone` for display.
+   * Default: undefined (times are already in the schedule's time zone)
+   */
+  timeZone?: string;
+
+  /**
+   * Id of the resource (e.g., a room) the event belongs to, see ScheduleConfig.resources
+   * Events without a known resourceId are placed in the first resource.
+   */
+  resourceId?: string;
+
   title: string;
 
   description?: string;
@@ -212,12 +371,189 @@ export interface ScheduleEvent {
    * Default: 0
    */
   lanePriority?: number;
+
+  /**
+   * Set on events expanded from a RecurringEventSeries
+   * Identifies the series and the occurrence the event came from
+   */
+  recurrence?: EventOccurrence;
+}
+
+/**
+ * Origin of an event expanded from a recurrence rule
+ */
+export interface EventOccurrence {
+  /** id of the RecurringEventSeries */
+  seriesId: string;
+  /** 0-based index of the occurrence within the rule (EXDATEs keep their index) */
+  occurrenceIndex: number;
+  /** Calendar date of the occurrence (local midnight) */
+  occurrenceDate: Date;
+}
+
+/**
+ * Supported subset of an RFC 5545 RRULE
+ */
+export interface RecurrenceRule {
+  freq: 'DAILY' | 'WEEKLY';
+  /** Repeat every n days/weeks. Default: 1 */
+  interval: number;
+  /** Days the rule applies to. Default: weekday of the series start (WEEKLY), every day (DAILY) */
+  byDay?: DayOfWeek[];
+  /** Maximum number of occurrences */
+  count?: number;
+  /** Last date (inclusive) an occurrence may fall on */
+  until?: Date;
+}
+
+/**
+ * A series of events described by a recurrence rule
+ * Expand it into ScheduleEvents with expandRecurrence() / expandRecurrenceForWeek()
+ */
+export interface RecurringEventSeries extends Omit<ScheduleEvent, 'day' | 'date' | 'recurrence'> {
+  /** Date of the first occurrence (DTSTART, time of day is ignored) */
+  start: Date;
+
+  /**
+   * RRULE subset: FREQ=WEEKLY|DAILY, BYDAY, INTERVAL, COUNT, UNTIL
+   * Example: "FREQ=WEEKLY;BYDAY=MO,WE;UNTIL=20241220"
+   */
+  rrule: string;
+
+  /** Dates skipped by the series (EXDATE, time of day is ignored) */
+  exdates?: Date[];
+}
+
+/**
+ * Options for exporting events as iCalendar (.ics)
+ */
+export interface ICalendarExportOptions {
+  /**
+   * Week used to place weekly pattern events (events without `date`)
+   * Their DTSTART falls on `day` of this week and they get a weekly RRULE
+   * Default: the current week
+   */
+  weekStartDate?: Date;
+
+  /**
+   * Day the reference week starts on, as configured on the schedule
+   * Default: Monday
+   */
+  firstDayOfWeek?: DayOfWeek;
+
+  /** Calendar name written as X-WR-CALNAME */
+  calendarName?: string;
+
+  /** PRODID of the calendar. Default: "-//week-peek//EN" */
+  productId?: string;
+}
+
+/**
+ * Outcome of an iCalendar import
+ * Components that could not be converted are skipped and reported in `errors`
+ */
+export interface ICalendarImportResult {
+  events: ScheduleEvent[];
+  /** Problems with individual components, fields are prefixed (e.g., "VEVENT[2].DTSTART") */
+  errors: ValidationError[];
+}
+
+/**
+ * Day and time range of an event, as carried by interaction events
+ */
+export interface EventTimeRange {
+  day: DayOfWeek;
+  startTime: TimeOnly;
+  endTime: TimeOnly;
+  /** Set when endTime is on the day after `day` */
+  endsNextDay?: boolean;
+  /** Calendar date of `day` when the schedule is anchored to a week */
+  date?: Date;
+}
+
+/**
+ * Detail of the cancelable `schedule-event-move` DOM event
+ * Calling preventDefault() keeps the event at its original position
+ */
+export interface ScheduleEventMoveDetail {
+  /** The event being moved (still holding its original times) */
+  event: ScheduleEvent;
+  /** Position before the move */
+  from: EventTimeRange;
+  /** Position after the move */
+  to: EventTimeRange;
+}
+
+/**
+ * Detail of the cancelable `schedule-event-resize` DOM event
+ * Calling preventDefault() keeps the event at its original duration
+ */
+export interface ScheduleEventResizeDetail {
+  /** The event being resized (still holding its original times) */
+  event: ScheduleEvent;
+  /** Which edge was dragged: 'start' changes startTime, 'end' changes endTime */
+  edge: 'start' | 'end';
+  /** Times before the resize */
+  from: EventTimeRange;
+  /** Times after the resize */
+  to: EventTimeRange;
+}
+
+/**
+ * Detail of the `schedule-slot-select` DOM event, fired when empty time is
+ * clicked or dragged across so the host app can create an event there
+ */
+export type ScheduleSlotSelectDetail = EventTimeRange;
+
+/**
+ * Detail of the `schedule-week-change` DOM event, fired after a date-anchored
+ * schedule navigates to another week
+ */
+export interface ScheduleWeekChangeDetail {
+  /** First day (local midnight) of the week now displayed */
+  weekStart: Date;
+  /** First day (local midnight) of the week displayed before */
+  previousWeekStart: Date;
+}
+
+/**
+ * Overlapping events of a day (and resource) that don't fit the visible lanes,
+ * shown as one overflow indicator
+ */
+export interface OverflowCluster {
+  /** Identifies the cluster within a render (numbered, unrelated to event ids) */
+  id: string;
+  /** Day column the cluster is shown in */
+  day: DayOfWeek;
+  /** Resource sub-column the cluster is shown in */
+  resourceId?: string;
+  /** Start of the earliest event */
+  startTime: TimeOnly;
+  /** End of the latest event */
+  endTime: TimeOnly;
+  /** Hidden events, in start order: the event objects given to the schedule, each listed once */
+  events: ScheduleEvent[];
+}
+
+/**
+ * Detail of the cancelable `schedule-overflow-click` DOM event, fired when an overflow indicator
+ * is clicked (or activated with Enter or Space)
+ * Calling preventDefault() skips overflowBehavior (zoom, popover or expand)
+ */
+export interface ScheduleOverflowClickDetail {
+  cluster: OverflowCluster;
 }
 
 export interface RenderContext {
   laneInfo?: LaneInfo,
   orientation: ScheduleOrientation,
   isZoomed: boolean,
+  /** Formats times the way the schedule's time labels do */
+  formatTime: TimeFormatter,
+  /** Looks up the schedule's translated strings */
+  translate: Translator,
+  /** Cluster of the overflow indicator being rendered (renderOverflow only) */
+  overflowCluster?: OverflowCluster,
 }
 
 export interface EventFragment {
@@ -225,6 +561,38 @@ export interface EventFragment {
   style?: string;
 }
 
+/**
+ * Resource shown as a sub-column of every day (e.g., a room)
+ */
+export interface ScheduleResource {
+  /** Matched against ScheduleEvent.resourceId */
+  id: string;
+  /** Name shown in the resource header */
+  name: string;
+}
+
+/**
+ * Shaded time range of the grid background, e.g. closed hours or a lunch break
+ * Times are in the schedule's time zone. Without times the whole day is shaded.
+ */
+export interface BackgroundRange {
+  /** Days the range repeats on every week */
+  days: DayOfWeek[];
+  /** Start of the range (default: 00:00) */
+  startTime?: TimeOnly;
+  /** End of the range, after startTime (default: 24:00) */
+  endTime?: TimeOnly;
+  /** Text shown at the start of the range */
+  label?: string;
+  /** Custom CSS class(es) of the shaded element (DOM renderer) */
+  className?: string;
+  /**
+   * Closed time: slot selection, drops and resizes overlapping the range are refused (canvas renderer)
+   * Default: false (shading only)
+   */
+  unavailable?: boolean;
+}
+
 /**
  * Configuration options for the WeeklySchedule component
  */
@@ -235,6 +603,14 @@ export interface ScheduleConfig {
    */
   visibleDays?: DayOfWeek[];
 
+  /**
+   * Day the week starts on
+   * Visible days are shown in week order starting from it (whatever their order in visibleDays),
+   * and date-anchored weeks run from it for seven days.
+   * Default: Monday
+   */
+  firstDayOfWeek?: DayOfWeek;
+
   /**
    * Start hour for the time axis (0-23)
    * Default: 9 (9:00 AM)
@@ -242,21 +618,67 @@ export interface ScheduleConfig {
   startHour?: Hour;
 
   /**
-   * End hour for the time axis (0-23)
+   * End hour for the time axis (1-48)
    * Default: 17 (5:00 PM)
-   * Must be greater than startHour
+   * Must be greater than startHour. 24 ends the axis at midnight, values above 24
+   * extend it into the next day (e.g., 30 => 06:00 the next day) so overnight events
+   * render continuously in the column of the day they start.
+   */
+  endHour?: ExtendedHour;
+
+  /**
+   * Start of the time axis to the minute (e.g., new TimeOnly(7, 30)); overrides startHour
+   * Default: undefined (the axis starts at startHour)
    */
-  endHour?: Hour;
+  visibleStart?: TimeOnly;
 
   /**
-   * Interval between time slots in minutes
+   * End of the time axis to the minute (e.g., new TimeOnly(19, 30)); overrides endHour
+   * An end at or before the start continues into the next day (e.g., 18:30-02:30).
+   * Slot boundaries stay on the clock grid, so the first and last slot are shorter
+   * when the axis starts or ends between them.
+   * Default: undefined (the axis ends at endHour)
+   */
+  visibleEnd?: TimeOnly;
+
+  /**
+   * Widen the visible hours so that all events of the visible days fit
+   * Without it, events outside the hours are clipped and marked as continuing earlier/later
+   * Default: false
+   */
+  autoFitHours?: boolean;
+
+  /**
+   * IANA time zone the schedule is displayed in (e.g., "Europe/Prague")
+   * Events with their own `timeZone` are converted to it.
+   * Default: the browser's time zone
+   */
+  timeZone?: string;
+
+  /**
+   * IANA time zone of an optional second column of time labels (e.g., "America/New_York")
+   * Default: undefined (single time axis)
+   */
+  secondaryTimeZone?: string;
+
+  /**
+   * Interval between time slots in minutes (grid lines and event placement)
+   * Must divide startHour-endHour into whole slots, e.g. 20 or 90
+   * (with visibleStart/visibleEnd the first and last slot may be shorter)
    * Default: 60 (1 hour)
    */
-  timeSlotInterval?: TimeSlotInterval;
+  timeSlotInterval?: TimeSlotInterval | number;
+
+  /**
+   * Show a time label every N minutes from the whole hour the axis starts in; a multiple of timeSlotInterval
+   * Example: timeSlotInterval 5 with labelInterval 30 labels every sixth slot
+   * Default: timeSlotInterval (every slot is labeled)
+   */
+  labelInterval?: number;
 
   /**
    * Day name translations for localization
-   * Default: English day names
+   * Default: day names of `locale` (from Intl), English without a locale
    * Example: { [DayOfWeek.Monday]: 'Lunes', [DayOfWeek.Tuesday]: 'Martes', ... }
    */
   dayNameTranslations?: DayNameTranslations;
@@ -267,6 +689,13 @@ export interface ScheduleConfig {
    */
   orientation?: ScheduleOrientation;
 
+  /**
+   * Writing direction: RightToLeft puts the first visible day on the right (vertical)
+   * and runs time from right to left (horizontal)
+   * Default: the computed CSS `direction` of the container
+   */
+  direction?: ScheduleDirection;
+
   /**
    * Icon configuration (replaces previous separate iconClass + icons fields)
    * Supports text, emoji, icon font names, or HTML content (e.g., SVG)
@@ -286,11 +715,108 @@ export interface ScheduleConfig {
   overflowIndicatorFormat?: (overflowEvents: number) => string;
 
   /**
-   * Translations for component text strings
-   * Key-value map where keys are TranslationKey enum values
+   * Custom content of overflow indicators (DOM renderer)
+   * The returned HTML is placed inside the indicator button, which keeps handling clicks and keys.
+   * Default: the overflowIndicatorFormat title
+   */
+  renderOverflow?: (cluster: OverflowCluster, context: RenderContext) => string;
+
+  /**
+   * Most lanes shown side by side in a day (per resource) when not zoomed
+   * Days needing more show maxVisibleLanes - 1 lanes followed by overflow indicators.
+   * Default: 3
+   */
+  maxVisibleLanes?: number;
+
+  /**
+   * Narrowest lane in pixels before lanes collapse into overflow indicators
+   * Lowers maxVisibleLanes when day columns (rows when horizontal) get narrow.
+   * Default: undefined (no minimum)
+   */
+  minEventWidthPx?: number;
+
+  /**
+   * What clicking an overflow indicator does
+   * Default: OverflowBehavior.Zoom
+   */
+  overflowBehavior?: OverflowBehavior;
+
+  /**
+   * Translations for component text strings, overriding the built-in strings of `locale`
+   * Key-value map where keys are TranslationKey enum values; {placeholders} are filled in
    * Example: { [TranslationKey.mobileNoEvents]: 'No hay eventos para este día.' }
    */
-  translations?: Record<TranslationKey, string>;
+  translations?: Partial<Translations>;
+
+  /**
+   * Anchor the schedule to the week containing this date
+   * Day headers then show dates, events with a `date` outside the week are hidden,
+   * and nextWeek()/prevWeek()/goToDate() become available
+   * Default: undefined (abstract weekly pattern)
+   */
+  weekStartDate?: Date;
+
+  /**
+   * Format the date label shown next to the day name in date-anchored schedules
+   * Default: locale short date (e.g., "14 Oct")
+   */
+  formatDate?: (date: Date) => string;
+
+  /**
+   * BCP 47 locale used for strings, day names, dates and times (e.g., "en-US", "cs-CZ")
+   * Strings come from the built-in pack of its language (English when there is none).
+   * Default: undefined (English, "HH:mm" times, or the browser locale when timeFormat is set)
+   */
+  locale?: string;
+
+  /**
+   * 12 or 24 hour clock for times
+   * Default: the clock of `locale` when set, otherwise 24 hour "HH:mm"
+   */
+  timeFormat?: TimeFormat;
+
+  /**
+   * Format times shown in time labels, events and screen reader descriptions
+   * Overrides locale and timeFormat
+   */
+  formatTime?: TimeFormatter;
+
+  /**
+   * Show a line at the current time across today's column, moved every minute
+   * Shown only when today is a visible day (and in the displayed week when date-anchored);
+   * the first render scrolls it into view.
+   * Default: false
+   */
+  showNowIndicator?: boolean;
+
+  /**
+   * Source of the current time for the now indicator (e.g., a fake clock in tests)
+   * The time is read on the schedule's `timeZone` wall clock.
+   * Default: () => new Date()
+   */
+  clock?: () => Date;
+
+  /**
+   * Shaded time ranges drawn beneath events, e.g. closed hours or breaks
+   * Default: undefined (no shading)
+   * Example: [{ days: [DayOfWeek.Friday], startTime: new TimeOnly(14, 0), label: 'Closed', unavailable: true }]
+   */
+  backgrounds?: BackgroundRange[];
+
+  /**
+   * Resources shown side by side within each day, in order (e.g., rooms)
+   * Adds a resource header under each day header (next to it when horizontal);
+   * overlapping events share lanes only within their resource.
+   * Default: undefined (one shared lane pool per day)
+   */
+  resources?: ScheduleResource[];
+
+  /**
+   * How overlapping events share the width of a day
+   * Expand widens an event into the lanes after its own that are free for its whole time range.
+   * Default: LaneLayout.Equal
+   */
+  laneLayout?: LaneLayout;
 }
 
 /**
@@ -310,6 +836,22 @@ export interface LaneInfo {
    * Total number of lanes for this conflict group
    */
   totalLanes: number;
+
+  /**
+   * Number of lanes the event covers from laneIndex on (LaneLayout.Expand)
+   * Default: 1
+   */
+  laneSpan?: number;
+
+  /**
+   * 0-based index of the event's resource when resources are configured
+   */
+  resourceIndex?: number;
+
+  /**
+   * Number of resources sharing the day, when resources are configured
+   */
+  resourceCount?: number;
 }
 
 export interface LayoutEvent extends ScheduleEvent {
@@ -353,6 +895,56 @@ export interface LayoutEvent extends ScheduleEvent {
   gap?: string | number;
 }
 
+/**
+ * JSON form of a ScheduleEvent: times as "HH:mm", dates as "YYYY-MM-DD"
+ */
+export interface SerializedScheduleEvent extends Omit<ScheduleEvent, 'startTime' | 'endTime' | 'date' | 'recurrence'> {
+  startTime: string;
+  endTime: string;
+  date?: string;
+  recurrence?: Omit<EventOccurrence, 'occurrenceDate'> & { occurrenceDate: string };
+}
+
+/**
+ * JSON form of a BackgroundRange: times as "HH:mm"
+ */
+export interface SerializedBackgroundRange extends Omit<BackgroundRange, 'startTime' | 'endTime'> {
+  startTime?: string;
+  endTime?: string;
+}
+
+/**
+ * JSON form of a ScheduleConfig
+ * Function options (renderEvent, overflowIndicatorFormat, renderOverflow, formatDate, formatTime, clock) cannot be serialized and are dropped
+ */
+export interface SerializedScheduleConfig extends Omit<ScheduleConfig, 'renderEvent' | 'overflowIndicatorFormat' | 'renderOverflow' | 'formatDate' | 'formatTime' | 'clock' | 'weekStartDate' | 'visibleStart' | 'visibleEnd' | 'backgrounds'> {
+  /** "YYYY-MM-DD" */
+  weekStartDate?: string;
+  /** "HH:mm" */
+  visibleStart?: string;
+  /** "HH:mm" */
+  visibleEnd?: string;
+  backgrounds?: SerializedBackgroundRange[];
+}
+
+/**
+ * JSON document produced by serializeSchedule()
+ */
+export interface SerializedSchedule {
+  /** Format version, bumped on incompatible changes */
+  version: 1;
+  config?: SerializedScheduleConfig;
+  events: SerializedScheduleEvent[];
+}
+
+/**
+ * Events and configuration restored by deserializeSchedule()
+ */
+export interface DeserializedSchedule {
+  config: ScheduleConfig;
+  events: ScheduleEvent[];
+}
+
 /**
  * Validation error details
  */
@@ -367,6 +959,12 @@ export interface AxisConfiguration {
   crossAxisWidth: string;
   numColumns: number;
   numRows: number;
+  /** Length of the time axis in slots (fractional when the first or last slot is shorter) */
+  slotUnits: number;
+  /** Length of the first slot in slots (below 1 when it is shorter) */
+  slotLead: number;
+  /** CSS track list sizing the time axis labels to their slots */
+  timeTracks: string;
   headerAxisData: string;
   crossAxisData: string;
 }
@@ -391,16 +989,59 @@ export interface IconConfig {
   unzoom?: string;
   /** Icon content for intersection CTA hint - can be text, emoji, icon font name, or HTML (e.g., SVG) */
   cta?: string;
-  /** Icon content for previous day navigation button - can be text, emoji, icon font name, or HTML (e.g., SVG). Defaults to '←' for vertical orientation, '↑' for horizontal */
+  /** Icon content for previous day navigation button - can be text, emoji, icon font name, or HTML (e.g., SVG). Defaults to '←' for vertical orientation ('→' right-to-left), '↑' for horizontal */
   prevDay?: string;
-  /** Icon content for next day navigation button - can be text, emoji, icon font name, or HTML (e.g., SVG). Defaults to '→' for vertical orientation, '↓' for horizontal */
+  /** Icon content for next day navigation button - can be text, emoji, icon font name, or HTML (e.g., SVG). Defaults to '→' for vertical orientation ('←' right-to-left), '↓' for horizontal */
   nextDay?: string;
 }
 
 /**
- * Translation keys for component text strings
+ * Keys of all user-facing strings, including ARIA labels and screen reader announcements
+ * Values may contain {placeholders} that are filled in when the string is used.
  */
 export enum TranslationKey {
   /** Message displayed when there are no events for a day in mobile view */
-  mobileNoEvents = 'mobileNoEvents'
+  mobileNoEvents = 'mobileNoEvents',
+  /** ARIA label of a day header, {day}: day name */
+  zoomToDay = 'zoomToDay',
+  /** ARIA label of the zoomed day's header */
+  returnToWeek = 'returnToWeek',
+  /** ARIA label of the previous day button in zoomed view */
+  previousDay = 'previousDay',
+  /** ARIA label of the next day button in zoomed view */
+  nextDay = 'nextDay',
+  /** ARIA label of the day name in zoomed view */
+  backToWeek = 'backToWeek',
+  /** Overflow indicator title, {count}: number of hidden events */
+  overflowMore = 'overflowMore',
+  /** ARIA label of an overflow indicator, {start}/{end}: time range of the hidden events */
+  overflowZoom = 'overflowZoom',
+  /** ARIA label of an overflow indicator opening a popover or expanding the day, {start}/{end}: time range */
+  overflowShow = 'overflowShow',
+  /** ARIA label of the overflow popover, {start}/{end}: time range of the hidden events */
+  overflowPopoverLabel = 'overflowPopoverLabel',
+  /** Screen reader label of the canvas schedule */
+  scheduleLabel = 'scheduleLabel',
+  /** Screen reader label of a canvas day column, {day}: day name */
+  dayColumnLabel = 'dayColumnLabel',
+  /** Screen reader text of an empty canvas day column, {day}: day name */
+  noEventsOnDay = 'noEventsOnDay',
+  /** Event time range in screen reader descriptions, {start}/{end}: times */
+  eventTimeRange = 'eventTimeRange',
+  /** Time range of an event ending the next day, {start}/{end}: times */
+  eventTimeRangeNextDay = 'eventTimeRangeNextDay',
+  /** Announcement after zooming to a day, {day}: day name */
+  viewingDay = 'viewingDay',
+  /** Announcement after returning to the full week */
+  viewingWeek = 'viewingWeek'
 }
+
+/**
+ * Complete set of strings for one language
+ */
+export type Translations = Record<TranslationKey, string>;
+
+/**
+ * Looks up a string and fills in its {placeholders}
+ */
+export type Translator = (key: TranslationKey, params?: Record<string, string | number>) => string;
@@ -1,3 +1,5 @@
+import type { BackgroundRange, DayOfWeek, OverflowCluster, ScheduleEvent } from './index';
+
 /**
  * Result type for operations that can succeed or fail
  * Internal type - shared across internal files but not exported to consumers
@@ -6,3 +8,77 @@ export type Result<T, E = Error> =
   | { success: true; data: T }
   | { success: false; error: E };
 
+/**
+ * Visible part of the time axis in axis minutes
+ * The end exceeds 1440 when the axis extends into the next day.
+ * Internal type - produced by resolveVisibleRange()
+ */
+export interface AxisRange {
+  startMinutes: number;
+  endMinutes: number;
+}
+
+/**
+ * One slot of the time axis in axis minutes
+ * Slot boundaries fall every timeSlotInterval minutes from the whole hour the axis starts in,
+ * so the first and last slot are shorter when the axis starts or ends between boundaries.
+ * Internal type - produced by getAxisSlots()
+ */
+export interface AxisSlot {
+  startMinutes: number;
+  endMinutes: number;
+}
+
+/**
+ * Place of the now indicator: a day column and the axis minutes of the current time in it
+ * Internal type - produced by getNowPositions()
+ */
+export interface NowPosition {
+  day: DayOfWeek;
+  minutes: number;
+}
+
+/**
+ * Part of a background range placed on the time axis of one day column, clipped to the axis
+ * Internal type - produced by projectBackgroundsToAxis()
+ */
+export interface BackgroundSegment {
+  day: DayOfWeek;
+  startMinutes: number;
+  endMinutes: number;
+  background: BackgroundRange;
+}
+
+/**
+ * Part of an event placed on the time axis of one day column
+ * Axis minutes count from midnight of the column's day and may exceed 1440
+ * when the axis extends into the next day (endHour > 24).
+ * Internal type - produced by projectEventsToAxis()
+ */
+export interface AxisSegment extends ScheduleEvent {
+  axisStartMinutes: number;
+  axisEndMinutes: number;
+  /** Start of the whole event on this column's axis (negative when it started the previous day) */
+  eventStartMinutes: number;
+  /** The event starts before this segment (on the previous day or before the visible hours) */
+  continuesBefore?: boolean;
+  /** The event ends after this segment (on the next day or after the visible hours) */
+  continuesAfter?: boolean;
+}
+
+/**
+ * Overflow indicator standing in for the events of a cluster that don't fit the visible lanes
+ * Internal type - produced by compressDayEvents()
+ */
+export interface OverflowIndicator extends AxisSegment {
+  /** Events the indicator stands in for */
+  overflowCluster: OverflowCluster;
+  /** Hidden events as placed on the day's axis, in start order */
+  hiddenSegments: ScheduleEvent[];
+}
+
+/**
+ * Gives overflow clusters of one render their id and the events they list
+ * Internal type - produced by createOverflowClusterFactory()
+ */
+export type OverflowClusterFactory = (hiddenEvents: ScheduleEvent[]) => Pick<OverflowCluster, 'id' | 'events'>;
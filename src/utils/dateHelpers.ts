@@ -0,0 +1,155 @@
+import type { ScheduleEvent } from '../types';
+import { DayOfWeek } from '../types';
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+/**
+ * Check that a value is a Date holding a real point in time
+ */
+export function isValidDate(value: unknown): value is Date {
+  return value instanceof Date && !Number.isNaN(value.getTime());
+}
+
+/**
+ * Get the DayOfWeek of a calendar date (local time)
+ * JS Date counts from Sunday, DayOfWeek counts from Monday
+ */
+export function getDayOfWeekFromDate(date: Date): DayOfWeek {
+  return ((date.getDay() + 6) % 7) as DayOfWeek;
+}
+
+/**
+ * Position of a day in a week starting on firstDayOfWeek (0 = first day, 6 = last day)
+ */
+export function getDayIndex(day: DayOfWeek, firstDayOfWeek: DayOfWeek = DayOfWeek.Monday): number {
+  return (day - firstDayOfWeek + 7) % 7;
+}
+
+/**
+ * Put days in week order starting from firstDayOfWeek, dropping duplicates
+ * @example orderDays([Monday, Sunday], DayOfWeek.Sunday) => [Sunday, Monday]
+ * @returns New array, the input is not modified
+ */
+export function orderDays(days: readonly DayOfWeek[], firstDayOfWeek: DayOfWeek = DayOfWeek.Monday): DayOfWeek[] {
+  return [...new Set(days)].sort((a, b) => getDayIndex(a, firstDayOfWeek) - getDayIndex(b, firstDayOfWeek));
+}
+
+/**
+ * Add a number of calendar days to a date (local time, DST safe)
+ * @returns New Date instance, the input is not modified
+ */
+export function addDays(date: Date, days: number): Date {
+  const result = new Date(date.getTime());
+  result.setDate(result.getDate() + days);
+  return result;
+}
+
+/**
+ * Get local midnight of a date
+ */
+export function startOfDay(date: Date): Date {
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate());
+}
+
+/**
+ * Get local midnight of the first day of the week that contains a date
+ * @param firstDayOfWeek - Day weeks start on (default: Monday)
+ */
+export function startOfWeek(date: Date, firstDayOfWeek: DayOfWeek = DayOfWeek.Monday): Date {
+  const midnight = startOfDay(date);
+  return addDays(midnight, -getDayIndex(getDayOfWeekFromDate(midnight), firstDayOfWeek));
+}
+
+/**
+ * Whole calendar days from one date to another (local time, DST safe)
+ */
+export function daysBetween(from: Date, to: Date): number {
+  return Math.round((startOfDay(to).getTime() - startOfDay(from).getTime()) / MS_PER_DAY);
+}
+
+/**
+ * Get the calendar date of a day within a week
+ * @param weekStart - First day of the week (as returned by startOfWeek)
+ * @param day - Day of week to resolve
+ * @param firstDayOfWeek - Day weeks start on (default: Monday)
+ */
+export function getDateForDay(weekStart: Date, day: DayOfWeek, firstDayOfWeek: DayOfWeek = DayOfWeek.Monday): Date {
+  return addDays(weekStart, getDayIndex(day, firstDayOfWeek));
+}
+
+/**
+ * Check whether a date falls inside the week starting at weekStart
+ * @param weekStart - First day of the week (as returned by startOfWeek)
+ * @param firstDayOfWeek - Day weeks start on (default: Monday)
+ */
+export function isDateInWeek(date: Date, weekStart: Date, firstDayOfWeek: DayOfWeek = DayOfWeek.Monday): boolean {
+  return startOfWeek(date, firstDayOfWeek).getTime() === weekStart.getTime();
+}
+
+/**
+ * Format a date as YYYY-MM-DD (local time), e.g. for use in ids
+ */
+export function toDateKey(date: Date): string {
+  const y = date.getFullYear().toString().padStart(4, '0');
+  const m = (date.getMonth() + 1).toString().padStart(2, '0');
+  const d = date.getDate().toString().padStart(2, '0');
+  return `${y}-${m}-${d}`;
+}
+
+/**
+ * Parse a YYYY-MM-DD string (a trailing time part is ignored) as local midnight
+ * @returns The date, or null when the string is not a real calendar date
+ */
+export function parseDateKey(value: string): Date | null {
+  const match = /^(\d{4})-(\d{2})-(\d{2})(T.*)?$/.exec(value);
+  if (!match) return null;
+
+  const year = Number(match[1]);
+  const month = Number(match[2]) - 1;
+  const day = Number(match[3]);
+  const date = new Date(year, month, day);
+  if (date.getFullYear() !== year || date.getMonth() !== month || date.getDate() !== day) {
+    return null;
+  }
+  return date;
+}
+
+/**
+ * Default date label for day headers (e.g., "14 Oct")
+ * @param locale - BCP 47 locale, the browser locale when undefined
+ */
+export function formatHeaderDate(date: Date, locale?: string): string {
+  return date.toLocaleDateString(locale, { day: 'numeric', month: 'short' });
+}
+
+/**
+ * Resolve events for a concrete week
+ * Events with a `date` are kept only when it falls inside the week and are placed on its weekday.
+ * Events without a `date` are weekly patterns and appear in every week unchanged.
+ * @param events - Events to resolve
+ * @param weekStart - First day of the displayed week (as returned by startOfWeek)
+ * @param firstDayOfWeek - Day weeks start on (default: Monday)
+ */
+export function resolveWeekEvents(
+  events: ScheduleEvent[],
+  weekStart: Date,
+  firstDayOfWeek: DayOfWeek = DayOfWeek.Monday
+): ScheduleEvent[] {
+  const resolved: ScheduleEvent[] = [];
+
+  for (const event of events) {
+    if (!event.date) {
+      resolved.push(event);
+      continue;
+    }
+
+    if (!isDateInWeek(event.date, weekStart, firstDayOfWeek)) {
+      continue;
+    }
+
+    const day = getDayOfWeekFromDate(event.date);
+    resolved.push(day === event.day ? event : { ...event, day });
+  }
+
+  return resolved;
+}
@@ -0,0 +1,132 @@
+/**
+ * Key of a node that keeps its identity across renders, null for nodes matched by position
+ * Events are keyed by their data-event-id, overflow indicators by data-overflow-id,
+ * day headers by data-day and time labels by their time.
+ */
+function getNodeKey(node: Node): string | null {
+  if (node.nodeType !== Node.ELEMENT_NODE) return null;
+
+  const element = node as Element;
+  const eventId = element.getAttribute('data-event-id');
+  if (eventId !== null) return `event:${eventId}`;
+
+  const overflowId = element.getAttribute('data-overflow-id');
+  if (overflowId !== null) return `overflow:${overflowId}`;
+
+  if (element.classList.contains('day-header')) return `day:${element.getAttribute('data-day')}`;
+  if (element.classList.contains('time-label')) {
+    return `time:${element.getAttribute('data-hours')}:${element.getAttribute('data-minutes')}`;
+  }
+
+  return null;
+}
+
+/**
+ * Keys of the child nodes of a parent, numbered when repeated (an overnight event has a segment on two days)
+ */
+function getChildKeys(children: ChildNode[]): Array<string | null> {
+  const seen = new Map<string, number>();
+  return children.map(child => {
+    const key = getNodeKey(child);
+    if (key === null) return null;
+    const count = seen.get(key) ?? 0;
+    seen.set(key, count + 1);
+    return count === 0 ? key : `${key}#${count}`;
+  });
+}
+
+/**
+ * Make the attributes of an element equal to those of another
+ */
+function patchAttributes(from: Element, to: Element): void {
+  for (const { name } of Array.from(from.attributes)) {
+    if (!to.hasAttribute(name)) {
+      from.removeAttribute(name);
+    }
+  }
+  for (const { name, value } of Array.from(to.attributes)) {
+    if (from.getAttribute(name) !== value) {
+      from.setAttribute(name, value);
+    }
+  }
+}
+
+/**
+ * Make a node equal to another of the same kind, keeping the node itself
+ */
+function patchNode(from: ChildNode, to: ChildNode): void {
+  if (from.isEqualNode(to)) return;
+
+  if (from.nodeType !== Node.ELEMENT_NODE) {
+    from.nodeValue = to.nodeValue;
+    return;
+  }
+  patchAttributes(from as Element, to as Element);
+  patchChildNodes(from, to);
+}
+
+/**
+ * Reconcile the children of `parent` with those of `next`
+ * Keyed children are matched by key, the rest by position among nodes of the same name.
+ * Matched nodes are patched in place and only moved when out of order; unmatched new nodes
+ * are inserted and unmatched old ones removed.
+ */
+function patchChildNodes(parent: Node, next: Node): void {
+  const oldChildren = Array.from(parent.childNodes);
+  const oldKeys = getChildKeys(oldChildren);
+  const keyed = new Map<string, ChildNode>();
+  const unkeyed = new Map<string, ChildNode[]>();
+  oldChildren.forEach((child, index) => {
+    const key = oldKeys[index];
+    if (key !== null) {
+      keyed.set(key, child);
+    } else {
+      const pool = unkeyed.get(child.nodeName) ?? [];
+      pool.push(child);
+      unkeyed.set(child.nodeName, pool);
+    }
+  });
+
+  const newChildren = Array.from(next.childNodes);
+  const newKeys = getChildKeys(newChildren);
+  const used = new Set<ChildNode>();
+  const targets = newChildren.map((child, index) => {
+    const key = newKeys[index];
+    const match = key !== null ? keyed.get(key) : unkeyed.get(child.nodeName)?.shift();
+    if (!match || match.nodeName !== child.nodeName) {
+      return child;
+    }
+    patchNode(match, child);
+    used.add(match);
+    return match;
+  });
+
+  oldChildren.forEach(child => {
+    if (!used.has(child)) {
+      child.remove();
+    }
+  });
+
+  // Everything before the cursor is in place; nodes found elsewhere are moved to it
+  let cursor: ChildNode | null = parent.firstChild;
+  for (const node of targets) {
+    if (node === cursor) {
+      cursor = cursor.nextSibling;
+    } else {
+      parent.insertBefore(node, cursor);
+    }
+  }
+}
+
+/**
+ * Update the content of an element to the given HTML, keeping the nodes that stay
+ * Unlike setting innerHTML, unchanged nodes are left alone, so focus, scroll positions,
+ * listeners and other state attached to them survive the update.
+ * @param element - Element whose children are updated
+ * @param html - New content
+ */
+export function patchInnerHTML(element: HTMLElement, html: string): void {
+  const template = document.createElement('template');
+  template.innerHTML = html;
+  patchChildNodes(element, template.content);
+}
@@ -0,0 +1,66 @@
+import type { DayNameTranslations, ScheduleConfig, Translations, Translator } from '../types';
+import { DEFAULT_DAY_NAMES, DayOfWeek, ScheduleDirection } from '../types';
+import { en, LOCALE_PACKS } from '../locales';
+
+/**
+ * Fill {placeholders} of a string; unknown placeholders are kept as they are
+ * @example interpolate('Zoom to {day}', { day: 'Monday' }) => 'Zoom to Monday'
+ */
+export function interpolate(template: string, params: Record<string, string | number> = {}): string {
+  return template.replace(/\{(\w+)\}/g, (match, name: string) => (name in params ? String(params[name]) : match));
+}
+
+/**
+ * Built-in strings for a locale, matched by its language subtag
+ * @param locale - BCP 47 locale (e.g., "cs-CZ"); English when undefined or not built in
+ */
+export function getLocalePack(locale?: string): Translations {
+  const language = locale?.split(/[-_]/)[0].toLowerCase();
+  return (language && LOCALE_PACKS[language]) || en;
+}
+
+/**
+ * Day names of a locale from Intl (e.g., "pondělí" for "cs-CZ")
+ * @param locale - BCP 47 locale, the browser locale when undefined
+ */
+export function getLocaleDayNames(locale?: string): DayNameTranslations {
+  const format = new Intl.DateTimeFormat(locale, { weekday: 'long', timeZone: 'UTC' });
+  // 2024-01-01 was a Monday
+  const name = (day: DayOfWeek) => format.format(new Date(Date.UTC(2024, 0, 1 + day)));
+  return {
+    [DayOfWeek.Monday]: name(DayOfWeek.Monday),
+    [DayOfWeek.Tuesday]: name(DayOfWeek.Tuesday),
+    [DayOfWeek.Wednesday]: name(DayOfWeek.Wednesday),
+    [DayOfWeek.Thursday]: name(DayOfWeek.Thursday),
+    [DayOfWeek.Friday]: name(DayOfWeek.Friday),
+    [DayOfWeek.Saturday]: name(DayOfWeek.Saturday),
+    [DayOfWeek.Sunday]: name(DayOfWeek.Sunday)
+  };
+}
+
+/**
+ * Day names a schedule shows: `dayNameTranslations`, else the names of `locale`, else English
+ */
+export function resolveDayNames(config: Pick<ScheduleConfig, 'locale' | 'dayNameTranslations'>): DayNameTranslations {
+  if (config.dayNameTranslations) {
+    return config.dayNameTranslations;
+  }
+  return config.locale ? getLocaleDayNames(config.locale) : DEFAULT_DAY_NAMES;
+}
+
+/**
+ * Build the translator a schedule uses for all of its strings
+ * Lookup order: `translations`, the built-in pack of `locale`, English.
+ */
+export function createTranslator(config: Pick<ScheduleConfig, 'locale' | 'translations'>): Translator {
+  const pack = getLocalePack(config.locale);
+  const overrides = config.translations ?? {};
+  return (key, params) => interpolate(overrides[key] ?? pack[key] ?? en[key], params);
+}
+
+/**
+ * Writing direction of an element from its computed CSS `direction` (e.g., inherited from `<html dir="rtl">`)
+ */
+export function getElementDirection(element: HTMLElement): ScheduleDirection {
+  return getComputedStyle(element).direction === 'rtl' ? ScheduleDirection.RightToLeft : ScheduleDirection.LeftToRight;
+}
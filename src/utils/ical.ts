@@ -0,0 +1,419 @@
+import type {
+  ICalendarExportOptions,
+  ICalendarImportResult,
+  ScheduleEvent,
+  ValidationError,
+  Hour,
+  Minute
+} from '../types';
+import type { Result } from '../types/internal';
+import { TimeOnly } from '../types';
+import { validateEvent } from './validators';
+import { addDays, daysBetween, getDateForDay, getDayOfWeekFromDate, startOfWeek } from './dateHelpers';
+import { parseRRule } from './recurrence';
+import { isValidTimeZone } from './timeZone';
+
+/**
+ * Property used to store one `metadata` entry: X-WEEK-PEEK-META;KEY=<key>:<JSON value>
+ */
+const METADATA_PROPERTY = 'X-WEEK-PEEK-META';
+
+const RRULE_DAY_CODES = ['MO', 'TU', 'WE', 'TH', 'FR', 'SA', 'SU'];
+
+/**
+ * A content line split into name, parameters and value
+ */
+interface ContentLine {
+  name: string;
+  params: Record<string, string>;
+  value: string;
+}
+
+/**
+ * Escape a TEXT value (RFC 5545 3.3.11)
+ */
+function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+}
+
+/**
+ * Unescape a TEXT value (RFC 5545 3.3.11)
+ */
+function unescapeText(value: string): string {
+  return value.replace(/\\([\\;,nN])/g, (_match, char: string) => (char === 'n' || char === 'N' ? '\n' : char));
+}
+
+/**
+ * Quote a parameter value when it contains characters that are not allowed unquoted
+ */
+function formatParamValue(value: string): string {
+  return /[;:,]/.test(value) ? `"${value.replace(/"/g, '')}"` : value;
+}
+
+const MAX_LINE_OCTETS = 75;
+const utf8Encoder = new TextEncoder();
+
+/**
+ * Fold a content line to at most 75 octets per physical line (RFC 5545 3.1)
+ * Lines are measured in UTF-8 and only broken between code points, so multi-byte
+ * characters are never split. Continuation lines start with a space, which counts toward the limit.
+ */
+function foldLine(line: string): string {
+  if (utf8Encoder.encode(line).length <= MAX_LINE_OCTETS) return line;
+
+  const physicalLines: string[] = [];
+  let current = '';
+  let octets = 0;
+  for (const char of line) {
+    const size = utf8Encoder.encode(char).length;
+    if (octets + size > MAX_LINE_OCTETS) {
+      physicalLines.push(current);
+      current = ' ';
+      octets = 1;
+    }
+    current += char;
+    octets += size;
+  }
+  physicalLines.push(current);
+  return physicalLines.join('\r\n');
+}
+
+/**
+ * Format a local date and time as a floating DATE-TIME (e.g. 20241007T093000)
+ */
+function formatDateTime(date: Date, time: TimeOnly): string {
+  const y = date.getFullYear().toString().padStart(4, '0');
+  const m = (date.getMonth() + 1).toString().padStart(2, '0');
+  const d = date.getDate().toString().padStart(2, '0');
+  const h = time.hours.toString().padStart(2, '0');
+  const min = time.minutes.toString().padStart(2, '0');
+  return `${y}${m}${d}T${h}${min}00`;
+}
+
+/**
+ * Format an instant as a UTC DATE-TIME (e.g. 20241007T073000Z), used for DTSTAMP
+ */
+function formatUtcDateTime(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+/**
+ * Convert events to an iCalendar (.ics) document
+ * Events without `date` are weekly patterns: DTSTART is placed in the reference week and
+ * a `RRULE:FREQ=WEEKLY` is added. Events with `date` are exported as single occurrences.
+ * `metadata` entries are written as X-WEEK-PEEK-META properties and restored on import.
+ * Events with a `timeZone` get it as TZID (an IANA name, no VTIMEZONE is written); others are floating.
+ * @param events - Events to export
+ * @param options - Reference week, calendar name and PRODID
+ * @returns The .ics content with CRLF line endings
+ */
+export function exportICalendar(events: ScheduleEvent[], options: ICalendarExportOptions = {}): string {
+  const weekStart = startOfWeek(options.weekStartDate ?? new Date(), options.firstDayOfWeek);
+  const stamp = formatUtcDateTime(new Date());
+
+  const lines: string[] = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${options.productId ?? '-//week-peek//EN'}`,
+    'CALSCALE:GREGORIAN'
+  ];
+  if (options.calendarName) {
+    lines.push(`X-WR-CALNAME:${escapeText(options.calendarName)}`);
+  }
+
+  for (const event of events) {
+    const date = event.date ?? getDateForDay(weekStart, event.day, options.firstDayOfWeek);
+    // Overnight events and the 24:00 sentinel end on the following day
+    const endDate = event.endsNextDay || event.endTime.isEndOfDay() ? addDays(date, 1) : date;
+    const endTime = event.endTime.isEndOfDay() ? new TimeOnly(0, 0) : event.endTime;
+
+    lines.push('BEGIN:VEVENT');
+    lines.push(`UID:${escapeText(event.id)}`);
+    lines.push(`DTSTAMP:${stamp}`);
+    const tzid = event.timeZone ? `;TZID=${formatParamValue(event.timeZone)}` : '';
+    lines.push(`DTSTART${tzid}:${formatDateTime(date, event.startTime)}`);
+    lines.push(`DTEND${tzid}:${formatDateTime(endDate, endTime)}`);
+    if (!event.date) {
+      lines.push(`RRULE:FREQ=WEEKLY;BYDAY=${RRULE_DAY_CODES[event.day]}`);
+    }
+    lines.push(`SUMMARY:${escapeText(event.title)}`);
+    if (event.description) {
+      lines.push(`DESCRIPTION:${escapeText(event.description)}`);
+    }
+    for (const [key, value] of Object.entries(event.metadata ?? {})) {
+      const json = JSON.stringify(value);
+      if (json === undefined) continue;
+      lines.push(`${METADATA_PROPERTY};KEY=${formatParamValue(key)}:${escapeText(json)}`);
+    }
+    lines.push('END:VEVENT');
+  }
+
+  lines.push('END:VCALENDAR');
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+}
+
+/**
+ * Split a content line into name, parameters and value
+ * The value starts at the first colon outside a quoted parameter value
+ */
+function parseContentLine(line: string): ContentLine | null {
+  let inQuotes = false;
+  let colon = -1;
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (char === '"') inQuotes = !inQuotes;
+    if (char === ':' && !inQuotes) {
+      colon = i;
+      break;
+    }
+  }
+  if (colon <= 0) return null;
+
+  const [name, ...rawParams] = line.slice(0, colon).split(';');
+  const params: Record<string, string> = {};
+  for (const param of rawParams) {
+    const eq = param.indexOf('=');
+    if (eq > 0) {
+      params[param.slice(0, eq).toUpperCase()] = param.slice(eq + 1).replace(/^"|"$/g, '');
+    }
+  }
+
+  return { name: name.toUpperCase(), params, value: line.slice(colon + 1) };
+}
+
+/**
+ * Parse a DATE-TIME value into a local Date
+ * UTC values (trailing Z) are converted to local time; TZID and floating values keep their wall clock time
+ */
+function parseDateTime(line: ContentLine): Date | null {
+  const match = /^(\d{4})(\d{2})(\d{2})T(\d{2})(\d{2})(\d{2})(Z?)$/.exec(line.value);
+  if (!match) return null;
+
+  const [, y, mo, d, h, mi, s, utc] = match;
+  const date = utc
+    ? new Date(Date.UTC(Number(y), Number(mo) - 1, Number(d), Number(h), Number(mi), Number(s)))
+    : new Date(Number(y), Number(mo) - 1, Number(d), Number(h), Number(mi), Number(s));
+  return Number.isNaN(date.getTime()) ? null : date;
+}
+
+/**
+ * Parse a DURATION value (e.g. PT1H30M) into minutes
+ */
+function parseDuration(value: string): number | null {
+  const match = /^\+?P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/.exec(value);
+  if (!match || value === 'P' || value.endsWith('T')) return null;
+
+  const [, weeks, days, hours, minutes] = match;
+  return (Number(weeks ?? 0) * 7 + Number(days ?? 0)) * 24 * 60 + Number(hours ?? 0) * 60 + Number(minutes ?? 0);
+}
+
+/**
+ * Convert one VEVENT into ScheduleEvents
+ * Weekly RRULEs without an end (FREQ=WEEKLY, optional BYDAY) become weekly patterns,
+ * one event per BYDAY day; events without RRULE keep their calendar `date`.
+ */
+function convertVEvent(lines: ContentLine[], index: number): Result<ScheduleEvent[], ValidationError[]> {
+  const errors: ValidationError[] = [];
+  const get = (name: string) => lines.find(line => line.name === name);
+
+  const dtStart = get('DTSTART');
+  const start = dtStart ? parseDateTime(dtStart) : null;
+  if (!dtStart) {
+    errors.push({ field: 'DTSTART', message: 'DTSTART is required' });
+  } else if (dtStart.params.VALUE === 'DATE') {
+    errors.push({ field: 'DTSTART', message: 'All-day events are not supported', value: dtStart.value });
+  } else if (!start) {
+    errors.push({ field: 'DTSTART', message: 'DTSTART must be a DATE-TIME (YYYYMMDDTHHMMSS)', value: dtStart.value });
+  }
+
+  let end: Date | null = null;
+  const dtEnd = get('DTEND');
+  const duration = get('DURATION');
+  if (dtEnd) {
+    end = parseDateTime(dtEnd);
+    if (!end) {
+      errors.push({ field: 'DTEND', message: 'DTEND must be a DATE-TIME (YYYYMMDDTHHMMSS)', value: dtEnd.value });
+    }
+  } else if (duration) {
+    const minutes = parseDuration(duration.value);
+    if (minutes === null) {
+      errors.push({ field: 'DURATION', message: 'DURATION must be an RFC 5545 duration (e.g., PT1H30M)', value: duration.value });
+    } else if (start) {
+      end = new Date(start.getTime() + minutes * 60 * 1000);
+    }
+  } else {
+    errors.push({ field: 'DTEND', message: 'DTEND or DURATION is required' });
+  }
+
+  const endDayOffset = start && end ? daysBetween(start, end) : 0;
+  if (endDayOffset < 0 || endDayOffset > 1) {
+    errors.push({ field: 'DTEND', message: 'Events must end on the day they start or the next day', value: end!.toString() });
+  }
+
+  let weeklyDays: number[] | null = null;
+  const rrule = get('RRULE');
+  if (rrule) {
+    const parsed = parseRRule(rrule.value);
+    if (!parsed.success) {
+      errors.push(...parsed.error.map(err => ({ ...err, field: err.field.replace(/^rrule/, 'RRULE') })));
+    } else if (parsed.data.freq !== 'WEEKLY' || parsed.data.interval !== 1 || parsed.data.count !== undefined || parsed.data.until) {
+      errors.push({
+        field: 'RRULE',
+        message: 'Only open-ended weekly RRULEs can be imported; expand other series with expandRecurrence()',
+        value: rrule.value
+      });
+    } else if (start) {
+      weeklyDays = parsed.data.byDay ?? [getDayOfWeekFromDate(start)];
+    }
+  }
+
+  if (errors.length > 0 || !start || !end) {
+    return { success: false, error: errors };
+  }
+
+  const metadata: Record<string, unknown> = {};
+  for (const line of lines) {
+    if (line.name === METADATA_PROPERTY && line.params.KEY) {
+      const text = unescapeText(line.value);
+      try {
+        metadata[line.params.KEY] = JSON.parse(text);
+      } catch {
+        metadata[line.params.KEY] = text;
+      }
+    } else if (line.name.startsWith('X-')) {
+      metadata[line.name] = unescapeText(line.value);
+    }
+  }
+
+  // Known IANA TZIDs are kept so the event is converted for display; others are read as local time
+  const tzid = dtStart?.params.TZID;
+  const uid = get('UID');
+  const summary = get('SUMMARY');
+  const description = get('DESCRIPTION');
+  const base: ScheduleEvent = {
+    id: uid ? unescapeText(uid.value) : `ical-${index}`,
+    day: getDayOfWeekFromDate(start),
+    startTime: new TimeOnly(start.getHours() as Hour, start.getMinutes() as Minute),
+    endTime: endDayOffset === 1 && end.getHours() === 0 && end.getMinutes() === 0
+      ? TimeOnly.endOfDay()
+      : new TimeOnly(end.getHours() as Hour, end.getMinutes() as Minute),
+    ...(endDayOffset === 1 && (end.getHours() !== 0 || end.getMinutes() !== 0) ? { endsNextDay: true } : {}),
+    ...(isValidTimeZone(tzid) ? { timeZone: tzid } : {}),
+    title: summary ? unescapeText(summary.value) : '',
+    ...(description ? { description: unescapeText(description.value) } : {}),
+    ...(Object.keys(metadata).length > 0 ? { metadata } : {})
+  };
+
+  const events: ScheduleEvent[] = weeklyDays === null
+    ? [{ ...base, date: new Date(start.getFullYear(), start.getMonth(), start.getDate()) }]
+    : weeklyDays.map(day => ({
+      ...base,
+      id: weeklyDays!.length > 1 ? `${base.id}@${RRULE_DAY_CODES[day]}` : base.id,
+      day
+    }));
+
+  for (const event of events) {
+    const validation = validateEvent(event);
+    if (!validation.success) {
+      return { success: false, error: validation.error };
+    }
+  }
+
+  return { success: true, data: events };
+}
+
+/**
+ * Unfold continuation lines (RFC 5545 3.1)
+ * @returns Content lines with the number of the physical line each starts on (1-based)
+ */
+function unfoldLines(ics: string): Array<{ text: string; lineNumber: number }> {
+  const lines: Array<{ text: string; lineNumber: number }> = [];
+  ics.split(/\r\n|\r|\n/).forEach((physical, index) => {
+    const previous = lines[lines.length - 1];
+    if (previous && /^[ \t]/.test(physical)) {
+      previous.text += physical.slice(1);
+    } else {
+      lines.push({ text: physical, lineNumber: index + 1 });
+    }
+  });
+  return lines;
+}
+
+/**
+ * Parse an iCalendar (.ics) document into events
+ * Supports timed VEVENTs with DTSTART and DTEND/DURATION ending the same or the next day
+ * (ending at midnight gives a 24:00 endTime, later gives `endsNextDay`). SUMMARY maps to `title`,
+ * DESCRIPTION to `description`, X-WEEK-PEEK-META and other X- properties to `metadata`.
+ * An IANA TZID on DTSTART becomes the event's `timeZone`.
+ * VEVENTs that cannot be converted are skipped and reported in `errors`.
+ * @param ics - The .ics content
+ * @returns Result with the imported events and per-component errors, or an error if the input is not a calendar
+ */
+export function importICalendar(ics: string): Result<ICalendarImportResult, ValidationError[]> {
+  if (typeof ics !== 'string' || !/BEGIN:VCALENDAR/i.test(ics)) {
+    return {
+      success: false,
+      error: [{ field: 'VCALENDAR', message: 'Input must be an iCalendar document (BEGIN:VCALENDAR)' }]
+    };
+  }
+
+  const rawLines = unfoldLines(ics);
+
+  const events: ScheduleEvent[] = [];
+  const errors: ValidationError[] = [];
+  let current: ContentLine[] | null = null;
+  let nestedDepth = 0;
+  let eventIndex = 0;
+
+  rawLines.forEach(({ text: raw, lineNumber }) => {
+    if (raw.trim().length === 0) return;
+
+    const line = parseContentLine(raw);
+    if (!line) {
+      errors.push({ field: `line[${lineNumber}]`, message: 'Malformed content line', value: raw });
+      return;
+    }
+
+    if (line.name === 'BEGIN' && line.value.toUpperCase() === 'VEVENT') {
+      current = [];
+      nestedDepth = 0;
+      return;
+    }
+
+    if (current === null) return;
+
+    // Skip nested components such as VALARM
+    if (line.name === 'BEGIN') {
+      nestedDepth++;
+      return;
+    }
+    if (line.name === 'END' && nestedDepth > 0) {
+      nestedDepth--;
+      return;
+    }
+    if (nestedDepth > 0) return;
+
+    if (line.name === 'END' && line.value.toUpperCase() === 'VEVENT') {
+      const result = convertVEvent(current, eventIndex);
+      if (result.success) {
+        events.push(...result.data);
+      } else {
+        result.error.forEach(err => {
+          errors.push({ ...err, field: `VEVENT[${eventIndex}].${err.field}` });
+        });
+      }
+      current = null;
+      eventIndex++;
+      return;
+    }
+
+    current.push(line);
+  });
+
+  return { success: true, data: { events, errors } };
+}
+
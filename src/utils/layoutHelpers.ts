@@ -1,49 +1,383 @@
-import type { ScheduleEvent, DayOfWeek, LayoutEvent, TimeOnly, Hour, LaneInfo } from '../types';
-import { TimeSlotInterval, ScheduleOrientation } from '../types';
+import type { ScheduleEvent, ScheduleConfig, DayOfWeek, LayoutEvent, LaneInfo, EventTimeRange, BackgroundRange, ScheduleResource, OverflowCluster } from '../types';
+import type { AxisRange, AxisSegment, AxisSlot, BackgroundSegment, OverflowClusterFactory, OverflowIndicator } from '../types/internal';
+import { TimeOnly, ScheduleOrientation, LaneLayout, DayOfWeek as DayEnum } from '../types';
+
+export const MINUTES_PER_DAY = 24 * 60;
 
 /**
- * Calculate time slot index from TimeOnly (0-based, relative to start hour)
- * @param time - TimeOnly instance
- * @param startHour - Starting hour for the schedule (0-23)
- * @param timeSlotInterval - Interval enum value
- * @returns Slot index (0-based)
+ * Lanes shown side by side before the rest collapse into overflow indicators (maxVisibleLanes default)
  */
-export function timeToSlotIndex(
-  time: TimeOnly,
-  startHour: Hour,
-  timeSlotInterval: TimeSlotInterval
-): number {
-  const hoursFromStart = time.hours - startHour;
-  const totalMinutes = hoursFromStart * 60 + time.minutes;
-  return Math.floor(totalMinutes / timeSlotInterval);
+export const DEFAULT_MAX_VISIBLE_LANES = 3;
+
+/**
+ * Visible part of the time axis: visibleStart/visibleEnd when set, else startHour/endHour
+ * A visibleEnd at or before the start ends the axis the next day (e.g., 18:30-02:30 => 1110-1590).
+ */
+export function resolveVisibleRange(
+  config: Pick<ScheduleConfig, 'startHour' | 'endHour' | 'visibleStart' | 'visibleEnd'>
+): AxisRange {
+  const startMinutes = config.visibleStart ? config.visibleStart.toMinutes() : (config.startHour ?? 9) * 60;
+  if (!config.visibleEnd) {
+    return { startMinutes, endMinutes: (config.endHour ?? 17) * 60 };
+  }
+
+  const end = config.visibleEnd.toMinutes();
+  return { startMinutes, endMinutes: end <= startMinutes ? end + MINUTES_PER_DAY : end };
 }
 
+/**
+ * Position of a time along the time axis, from 0 (axis start) to 1 (axis end)
+ * @param time - TimeOnly instance, or axis minutes (may exceed 1440 on axes extending past midnight)
+ * @param axis - Visible part of the time axis
+ */
+export function timeToAxisOffset(time: TimeOnly | number, axis: AxisRange): number {
+  const minutes = typeof time === 'number' ? time : time.toMinutes();
+  return (minutes - axis.startMinutes) / (axis.endMinutes - axis.startMinutes);
+}
 
 /**
- * Calculate the fractional offset within a time slot (0.0 to 1.0)
- * @param time - TimeOnly instance
- * @param startHour - Starting hour for the schedule
- * @param timeSlotInterval - Interval enum value
- * @returns Fractional offset within the slot (0.0 = start of slot, 1.0 = end of slot)
+ * Part of the time axis shown by a scrolled viewport
+ * @param axis - Visible part of the time axis
+ * @param scrollOffset - Distance scrolled from the axis start, in pixels
+ * @param viewportSize - Length of the viewport along the axis, in pixels
+ * @param gridSize - Length of the whole axis, in pixels
+ * @param overscan - Margin added before and after the viewport, in pixels
+ * @returns Axis minutes shown, clamped to the axis
  */
-export function timeToSlotOffset(
-  time: TimeOnly,
-  startHour: Hour,
-  timeSlotInterval: TimeSlotInterval
-): number {
-  const hoursFromStart = time.hours - startHour;
-  const totalMinutes = hoursFromStart * 60 + time.minutes;
-  const slotIndex = Math.floor(totalMinutes / timeSlotInterval);
-  const minutesIntoSlot = totalMinutes - (slotIndex * timeSlotInterval);
-  return minutesIntoSlot / timeSlotInterval;
+export function getViewportAxisRange(
+  axis: AxisRange,
+  scrollOffset: number,
+  viewportSize: number,
+  gridSize: number,
+  overscan = 0
+): AxisRange {
+  const length = axis.endMinutes - axis.startMinutes;
+  const toMinutes = (px: number) => axis.startMinutes + Math.min(1, Math.max(0, px / gridSize)) * length;
+  return {
+    startMinutes: toMinutes(scrollOffset - overscan),
+    endMinutes: toMinutes(scrollOffset + viewportSize + overscan)
+  };
+}
+
+/**
+ * Whole hour the slot boundaries of an axis count from
+ */
+function getSlotAnchor(axis: AxisRange): number {
+  return Math.floor(axis.startMinutes / 60) * 60;
+}
+
+/**
+ * Split the time axis into slots
+ * Boundaries fall every timeSlotInterval minutes from the whole hour the axis starts in, so
+ * 07:30-19:30 with 60 minute slots is 07:30-08:00, 08:00-09:00, ..., 19:00-19:30.
+ * Slots of axes extending past midnight continue past 1440 (e.g., 25:00 => 1500).
+ * @param axis - Visible part of the time axis
+ * @param timeSlotInterval - Slot length in minutes
+ */
+export function getAxisSlots(axis: AxisRange, timeSlotInterval: number): AxisSlot[] {
+  const anchor = getSlotAnchor(axis);
+  const slots: AxisSlot[] = [];
+  let start = axis.startMinutes;
+  while (start < axis.endMinutes) {
+    const boundary = anchor + (Math.floor((start - anchor) / timeSlotInterval) + 1) * timeSlotInterval;
+    const end = Math.min(boundary, axis.endMinutes);
+    slots.push({ startMinutes: start, endMinutes: end });
+    start = end;
+  }
+  return slots;
+}
+
+/**
+ * Check whether the slot starting at slotMinutes shows a time label
+ * Labels repeat every labelInterval minutes from the whole hour the axis starts in,
+ * so a shortened first slot (e.g., 07:30-08:00) stays unlabeled.
+ */
+export function isLabeledSlot(slotMinutes: number, axis: AxisRange, labelInterval: number): boolean {
+  return (slotMinutes - getSlotAnchor(axis)) % labelInterval === 0;
+}
+
+function isAxisSegment(event: ScheduleEvent): event is AxisSegment {
+  return (event as Partial<AxisSegment>).axisStartMinutes !== undefined;
+}
+
+/**
+ * Check whether an event is an overflow indicator made by compressDayEvents()
+ */
+export function isOverflowIndicator(event: ScheduleEvent): event is OverflowIndicator {
+  return (event as Partial<OverflowIndicator>).overflowCluster !== undefined;
+}
+
+/**
+ * Start of an event on its day column's time axis, in minutes since midnight
+ */
+export function getAxisStartMinutes(event: ScheduleEvent): number {
+  return isAxisSegment(event) ? event.axisStartMinutes : event.startTime.toMinutes();
+}
+
+/**
+ * End of an event on its day column's time axis, in minutes since midnight
+ * Events ending the next day end after 1440 (e.g., 22:00-06:00 => 1800)
+ */
+export function getAxisEndMinutes(event: ScheduleEvent): number {
+  if (isAxisSegment(event)) return event.axisEndMinutes;
+  return event.endTime.toMinutes() + (event.endsNextDay ? MINUTES_PER_DAY : 0);
+}
+
+/**
+ * Duration of an event in minutes, including the part after midnight for overnight events
+ */
+export function getEventDurationMinutes(event: ScheduleEvent): number {
+  return event.endTime.toMinutes() + (event.endsNextDay ? MINUTES_PER_DAY : 0) - event.startTime.toMinutes();
+}
+
+/**
+ * Convert a range on a day column's time axis back to event times
+ * A range starting after midnight moves to the next day (before midnight: the previous day),
+ * one ending after midnight sets endsNextDay.
+ * @param day - Day of the column the range was picked on
+ * @param startMinutes - Axis start (minutes since midnight of `day`)
+ * @param endMinutes - Axis end (minutes since midnight of `day`)
+ */
+export function axisRangeToTimes(day: DayOfWeek, startMinutes: number, endMinutes: number): EventTimeRange {
+  const dayOffset = Math.floor(startMinutes / MINUTES_PER_DAY);
+  const start = startMinutes - dayOffset * MINUTES_PER_DAY;
+  const end = endMinutes - dayOffset * MINUTES_PER_DAY;
+  const range: EventTimeRange = {
+    day: ((((day + dayOffset) % 7) + 7) % 7) as DayOfWeek,
+    startTime: TimeOnly.fromMinutes(start),
+    endTime: TimeOnly.fromMinutes(end > MINUTES_PER_DAY ? end - MINUTES_PER_DAY : end)
+  };
+  if (end > MINUTES_PER_DAY) {
+    range.endsNextDay = true;
+  }
+  return range;
+}
+
+/**
+ * Key identifying an event segment, unique across day columns
+ * The segment holding the event start keeps the event id so animations follow the event.
+ * Overflow indicators are keyed by their cluster.
+ */
+export function getSegmentKey(event: ScheduleEvent): string {
+  if (isOverflowIndicator(event)) return `#overflow-${event.overflowCluster.id}`;
+  if (!isAxisSegment(event) || (event.eventStartMinutes >= 0 && event.eventStartMinutes < MINUTES_PER_DAY)) {
+    return event.id;
+  }
+  return `${event.id}#${event.day}`;
+}
+
+/**
+ * Place events on the time axis of the day columns
+ * On an axis ending by midnight overnight events are split at midnight
+ * into a segment on each day. On an axis extending into the next day (past 1440) they
+ * render continuously in the column of their start day, and the early part of every event
+ * is repeated at the bottom of the previous day's column.
+ * Undated (weekly) events wrap from the last day of the week to the first; dated ones stay within their week.
+ * Segments entirely outside the axis are dropped, the others are clipped to it and flagged
+ * with continuesBefore/continuesAfter (their startTime and endTime stay the real times).
+ * @param events - Events of the displayed week
+ * @param axis - Visible part of the time axis (up to 48 hours)
+ * @param firstDayOfWeek - Day weeks start on (default: Monday)
+ */
+export function projectEventsToAxis(
+  events: ScheduleEvent[],
+  axis: AxisRange,
+  firstDayOfWeek: DayOfWeek = DayEnum.Monday
+): AxisSegment[] {
+  const axisStart = axis.startMinutes;
+  const axisEnd = axis.endMinutes;
+  const lastDayOfWeek = ((firstDayOfWeek + 6) % 7) as DayOfWeek;
+  const segments: AxisSegment[] = [];
+
+  for (const event of events) {
+    const start = event.startTime.toMinutes();
+    const end = getAxisEndMinutes(event);
+    const wrapsWeek = event.date !== undefined;
+
+    if (end <= MINUTES_PER_DAY || axisEnd > MINUTES_PER_DAY) {
+      segments.push({ ...event, axisStartMinutes: start, axisEndMinutes: end, eventStartMinutes: start });
+
+      // Repeat the part before the axis end at the bottom of the previous day
+      if (axisEnd > MINUTES_PER_DAY && start < axisEnd - MINUTES_PER_DAY && !(wrapsWeek && event.day === firstDayOfWeek)) {
+        segments.push({
+          ...event,
+          day: ((event.day + 6) % 7) as DayOfWeek,
+          axisStartMinutes: start + MINUTES_PER_DAY,
+          axisEndMinutes: end + MINUTES_PER_DAY,
+          eventStartMinutes: start + MINUTES_PER_DAY
+        });
+      }
+    } else {
+      segments.push({
+        ...event,
+        axisStartMinutes: start,
+        axisEndMinutes: MINUTES_PER_DAY,
+        eventStartMinutes: start,
+        continuesAfter: true
+      });
+      if (!(wrapsWeek && event.day === lastDayOfWeek)) {
+        segments.push({
+          ...event,
+          day: ((event.day + 1) % 7) as DayOfWeek,
+          axisStartMinutes: 0,
+          axisEndMinutes: end - MINUTES_PER_DAY,
+          eventStartMinutes: start - MINUTES_PER_DAY,
+          continuesBefore: true
+        });
+      }
+    }
+  }
+
+  return segments
+    .filter(segment => segment.axisEndMinutes > axisStart && segment.axisStartMinutes < axisEnd)
+    .map(segment => clipSegment(segment, axisStart, axisEnd));
+}
+
+/**
+ * Clamp a segment to the visible part of the axis, flagging the cut edges
+ */
+function clipSegment(segment: AxisSegment, axisStart: number, axisEnd: number): AxisSegment {
+  if (segment.axisStartMinutes >= axisStart && segment.axisEndMinutes <= axisEnd) {
+    return segment;
+  }
+
+  const clipped: AxisSegment = { ...segment };
+  if (segment.axisStartMinutes < axisStart) {
+    clipped.axisStartMinutes = axisStart;
+    clipped.continuesBefore = true;
+  }
+  if (segment.axisEndMinutes > axisEnd) {
+    clipped.axisEndMinutes = axisEnd;
+    clipped.continuesAfter = true;
+  }
+  return clipped;
+}
+
+/**
+ * Place background ranges on the time axis of the visible day columns
+ * On an axis extending into the next day (past 1440), the next day's ranges continue
+ * at the bottom of each column. Parts outside the axis are dropped.
+ * @param backgrounds - Configured background ranges
+ * @param axis - Visible part of the time axis
+ * @param visibleDays - Days shown as columns
+ */
+export function projectBackgroundsToAxis(
+  backgrounds: BackgroundRange[],
+  axis: AxisRange,
+  visibleDays: DayOfWeek[]
+): BackgroundSegment[] {
+  const segments: BackgroundSegment[] = [];
+
+  for (const background of backgrounds) {
+    const start = background.startTime?.toMinutes() ?? 0;
+    const end = background.endTime?.toMinutes() ?? MINUTES_PER_DAY;
+
+    for (const day of visibleDays) {
+      const nextDay = ((day + 1) % 7) as DayOfWeek;
+      const candidates = [
+        background.days.includes(day) ? { startMinutes: start, endMinutes: end } : null,
+        background.days.includes(nextDay) ? { startMinutes: start + MINUTES_PER_DAY, endMinutes: end + MINUTES_PER_DAY } : null
+      ];
+      for (const candidate of candidates) {
+        if (!candidate || candidate.endMinutes <= axis.startMinutes || candidate.startMinutes >= axis.endMinutes) continue;
+        segments.push({
+          day,
+          startMinutes: Math.max(axis.startMinutes, candidate.startMinutes),
+          endMinutes: Math.min(axis.endMinutes, candidate.endMinutes),
+          background
+        });
+      }
+    }
+  }
+
+  return segments;
+}
+
+/**
+ * Check whether a time range of a day column overlaps an unavailable background range
+ * @param segments - Background ranges placed on the axis (from projectBackgroundsToAxis)
+ * @param day - Day column of the range
+ * @param startMinutes - Start of the range in axis minutes
+ * @param endMinutes - End of the range in axis minutes
+ */
+export function overlapsUnavailable(
+  segments: BackgroundSegment[],
+  day: DayOfWeek,
+  startMinutes: number,
+  endMinutes: number
+): boolean {
+  return segments.some(segment =>
+    segment.background.unavailable &&
+    segment.day === day &&
+    segment.startMinutes < endMinutes &&
+    segment.endMinutes > startMinutes
+  );
+}
+
+/**
+ * Widen the visible time range so that every event on the visible days fits (autoFitHours)
+ * The range is only ever widened, never narrowed, and widened edges move out to whole hours.
+ * On axes extending into the next day, early events already shown at the bottom of the
+ * previous day's column don't widen the start.
+ * @param events - Events of the displayed week
+ * @param visibleDays - Days shown as columns
+ * @param axis - Configured time range
+ * @param firstDayOfWeek - Day weeks start on (default: Monday)
+ * @param timeSlotInterval - Slot length in minutes; widened whole-hour axes stay a whole number of slots
+ */
+export function fitRangeToEvents(
+  events: ScheduleEvent[],
+  visibleDays: DayOfWeek[],
+  axis: AxisRange,
+  firstDayOfWeek: DayOfWeek = DayEnum.Monday,
+  timeSlotInterval: number = 60
+): AxisRange {
+  const maxEnd = 2 * MINUTES_PER_DAY;
+  const extended = axis.endMinutes > MINUTES_PER_DAY;
+  const nextDayEnd = axis.endMinutes - MINUTES_PER_DAY;
+  let first = axis.startMinutes;
+  let last = axis.endMinutes;
+
+  const fullAxis: AxisRange = { startMinutes: 0, endMinutes: extended ? maxEnd : MINUTES_PER_DAY };
+  for (const segment of projectEventsToAxis(events, fullAxis, firstDayOfWeek)) {
+    // Skip copies repeated at the bottom of the previous day's column
+    if (!visibleDays.includes(segment.day) || segment.eventStartMinutes >= MINUTES_PER_DAY) continue;
+
+    if (!extended || segment.axisEndMinutes > nextDayEnd) {
+      first = Math.min(first, segment.axisStartMinutes);
+    }
+    last = Math.max(last, segment.axisEndMinutes);
+  }
+
+  if (first < axis.startMinutes) first = Math.floor(first / 60) * 60;
+  if (last > axis.endMinutes) last = Math.min(maxEnd, Math.ceil(last / 60) * 60);
+
+  // Widen whole-hour axes further until they divide into whole slots (e.g., 90 minute slots need multiples of 3 hours)
+  if (first % 60 === 0 && last % 60 === 0) {
+    while ((last - first) % timeSlotInterval !== 0 && last < maxEnd) last += 60;
+    while ((last - first) % timeSlotInterval !== 0 && first > 0) first -= 60;
+  }
+
+  return { startMinutes: first, endMinutes: last };
+}
+
+/**
+ * Round minutes to the nearest multiple of an interval
+ * @param minutes - Minutes since midnight
+ * @param interval - Snap interval in minutes
+ * @returns Snapped minutes
+ */
+export function snapToInterval(minutes: number, interval: number): number {
+  return Math.round(minutes / interval) * interval;
 }
 
 /**
  * Calculate event position and grid properties (relative to events grid)
  * Returns integer grid positions and CSS positioning values for fractional offsets.
+ * Events span the whole time axis of their day and are placed in it by percentage, which
+ * keeps them exact when the first and last slot are shorter than the others.
  * @param event - Event to position
- * @param startHour - Starting hour for the schedule
- * @param timeSlotInterval - Interval enum value
+ * @param axis - Visible part of the time axis
  * @param visibleDays - Array of visible days to determine day index
  * @param orientation - Schedule orientation (determines axis mapping)
  * @param laneInfo - Optional lane assignment for overlapping events
@@ -51,8 +385,7 @@ export function timeToSlotOffset(
  */
 export function calculateEventPosition(
   event: ScheduleEvent,
-  startHour: Hour,
-  timeSlotInterval: TimeSlotInterval,
+  axis: AxisRange,
   visibleDays: DayOfWeek[],
   orientation: ScheduleOrientation,
   laneInfo?: LaneInfo,
@@ -64,16 +397,13 @@ export function calculateEventPosition(
     end: dayIndex + 2
   };
 
-  const startSlot = timeToSlotIndex(event.startTime, startHour, timeSlotInterval);
-
-  // Always span exactly one slot for the time axis
-  // Sizing and positioning will be handled by absolute positioning relative to this single slot
+  // Span every slot of the time axis; absolute positioning places the event within it
   const timeSpan: SpanRange = {
-    start: startSlot + 1,
-    end: startSlot + 2 
+    start: 1,
+    end: -1
   };
 
-  const lengthAxis: AxisSizing = calculateEventLengthAxis(event, startHour, timeSlotInterval);
+  const lengthAxis: AxisSizing = calculateEventLengthAxis(event, axis);
   const widthAxis: AxisSizing = calculateEventWidthAxis(laneInfo, gap);
 
   if (orientation === ScheduleOrientation.Horizontal) {
@@ -119,10 +449,14 @@ interface AxisSizing {
 }
 
 function calculateEventWidthAxis(laneInfo: LaneInfo | undefined, gap?: string | number): AxisSizing {
+  // Resources split the day first, lanes split the resource's share
+  const resourceCount = laneInfo?.resourceCount ?? 1;
+  const resourceStart = ((laneInfo?.resourceIndex ?? 0) / resourceCount) * 100;
+
   if (laneInfo && laneInfo.totalLanes > 1) {
     const result: AxisSizing = {
-      start: (laneInfo.laneIndex / laneInfo.totalLanes) * 100,
-      size: 100 / laneInfo.totalLanes
+      start: resourceStart + (laneInfo.laneIndex / laneInfo.totalLanes) * (100 / resourceCount),
+      size: (laneInfo.laneSpan ?? 1) * 100 / (laneInfo.totalLanes * resourceCount)
     };
     
     if (gap !== undefined) {
@@ -133,31 +467,19 @@ function calculateEventWidthAxis(laneInfo: LaneInfo | undefined, gap?: string |
   }
 
   return {
-    start: 0,
-    size: 100
+    start: resourceStart,
+    size: 100 / resourceCount
   };
 }
 
-function calculateEventLengthAxis(event: ScheduleEvent, startHour: Hour, timeSlotInterval: TimeSlotInterval): AxisSizing {
-  const startSlot = timeToSlotIndex(event.startTime, startHour, timeSlotInterval);
-  const endSlot = timeToSlotIndex(event.endTime, startHour, timeSlotInterval);
-  
-  const startOffset = timeToSlotOffset(event.startTime, startHour, timeSlotInterval);
-  const endOffset = timeToSlotOffset(event.endTime, startHour, timeSlotInterval);
-
-  const spanSlots = endSlot - startSlot;
-  const startPercent = startOffset * 100;
-
-  const actualDurationInSlots = spanSlots > 0
-    ? ((1 - startOffset) + (spanSlots - 1) + endOffset)
-    : (endOffset - startOffset);
+function calculateEventLengthAxis(event: ScheduleEvent, axis: AxisRange): AxisSizing {
+  const startOffset = timeToAxisOffset(getAxisStartMinutes(event), axis);
+  const endOffset = timeToAxisOffset(getAxisEndMinutes(event), axis);
 
-  // Width/Height is always relative to a single slot (100% = 1 slot)
-  const lengthPercent = actualDurationInSlots * 100;
-  
+  // Top/left and height/width are relative to the whole time axis (100% = axis length)
   return {
-    start: startPercent,
-    size: lengthPercent
+    start: startOffset * 100,
+    size: (endOffset - startOffset) * 100
   };
 }
 
@@ -172,10 +494,10 @@ export function eventsOverlap(event1: ScheduleEvent, event2: ScheduleEvent): boo
     return false;
   }
   
-  const start1 = event1.startTime.toMinutes();
-  const end1 = event1.endTime.toMinutes();
-  const start2 = event2.startTime.toMinutes();
-  const end2 = event2.endTime.toMinutes();
+  const start1 = getAxisStartMinutes(event1);
+  const end1 = getAxisEndMinutes(event1);
+  const start2 = getAxisStartMinutes(event2);
+  const end2 = getAxisEndMinutes(event2);
   
   return start1 < end2 && end1 > start2;
 }
@@ -199,118 +521,413 @@ export function groupEventsByDay(events: ScheduleEvent[]): Map<DayOfWeek, Schedu
 }
 
 /**
- * Assign lanes to overlapping events using a greedy algorithm
- * Events are sorted by start time, then assigned to the first available lane
+ * Index of the resource an event belongs to; events without a known resourceId go to the first one
+ */
+export function getResourceIndex(event: ScheduleEvent, resources: ScheduleResource[]): number {
+  return Math.max(0, resources.findIndex(resource => resource.id === event.resourceId));
+}
+
+/**
+ * Group events of a day by resource, one group per resource in resource order
+ * Without resources all events form a single group.
+ */
+export function groupEventsByResource(events: ScheduleEvent[], resources: ScheduleResource[] = []): ScheduleEvent[][] {
+  if (resources.length === 0) {
+    return [events];
+  }
+
+  const groups: ScheduleEvent[][] = resources.map(() => []);
+  for (const event of events) {
+    groups[getResourceIndex(event, resources)].push(event);
+  }
+  return groups;
+}
+
+/**
+ * Assign lanes to the events of a day, separately within each resource
+ * Lane infos carry the resource index and count, so the resource's share of the day can be positioned.
+ * Without resources this is assignLanes().
+ * @param mode - How overlapping events share the width, see assignLanes()
+ */
+export function assignResourceLanes(
+  events: ScheduleEvent[],
+  resources: ScheduleResource[] = [],
+  mode: LaneLayout = LaneLayout.Equal
+): Map<ScheduleEvent, LaneInfo> {
+  if (resources.length === 0) {
+    return assignLanes(events, mode);
+  }
+
+  const laneMap = new Map<ScheduleEvent, LaneInfo>();
+  groupEventsByResource(events, resources).forEach((group, resourceIndex) => {
+    for (const [event, info] of assignLanes(group, mode)) {
+      laneMap.set(event, { ...info, resourceIndex, resourceCount: resources.length });
+    }
+  });
+  return laneMap;
+}
+
+/**
+ * Event with its axis minutes, as placed by assignLanes()
+ */
+interface LaneItem extends SpanRange {
+  event: ScheduleEvent;
+  lane: number;
+}
+
+/**
+ * Assign lanes to overlapping events with a sweep over their start times (O(n log n))
+ * Events take the lowest lane free at their start; overflow indicators are placed afterwards
+ * in the first lane free for their whole range, so they follow the events they stand in for.
+ * totalLanes is the lane count of the event's conflict group (events overlapping transitively).
  * @param events - Events on the same day (must all have same day)
- * @returns Map from event ID to lane assignment info
+ * @param mode - LaneLayout.Expand also sets laneSpan: the event widens into the following
+ *   lanes of its group until one is busy during its time range
+ * @returns Map from event (the objects passed in, so repeated ids can't collide) to lane assignment info
  */
-export function assignLanes(events: ScheduleEvent[]): Map<string, LaneInfo> {
+export function assignLanes(events: ScheduleEvent[], mode: LaneLayout = LaneLayout.Equal): Map<ScheduleEvent, LaneInfo> {
+  const laneMap = new Map<ScheduleEvent, LaneInfo>();
   if (events.length === 0) {
-    return new Map();
+    return laneMap;
   }
-  
-  const sorted = [...events].sort((a, b) => {
-    const aIsOverflow = a.className?.includes('event-overflow-indicator') ?? false;
-    const bIsOverflow = b.className?.includes('event-overflow-indicator') ?? false;
-    
-    if (aIsOverflow && !bIsOverflow) {
-      return 1; // a (overflow) comes after b
+
+  const items: LaneItem[] = events.map(event => ({
+    event,
+    start: getAxisStartMinutes(event),
+    end: getAxisEndMinutes(event),
+    lane: -1
+  }));
+  // Earlier start first; of equal starts the longer event takes the lower lane
+  const byStart = (a: LaneItem, b: LaneItem) => a.start - b.start || b.end - a.end;
+  const isOverflow = (item: LaneItem) => isOverflowIndicator(item.event);
+
+  // Events of each lane in time order (they never overlap within a lane)
+  const lanes: LaneItem[][] = [];
+
+  // Sweep: release lanes of events ended by the next start, reuse the lowest free one
+  const freeLanes: number[] = [];
+  const active: LaneItem[] = [];
+  const byEnd = (a: LaneItem, b: LaneItem) => a.end - b.end;
+  const byLane = (a: number, b: number) => a - b;
+  for (const item of items.filter(item => !isOverflow(item)).sort(byStart)) {
+    while (active.length > 0 && active[0].end <= item.start) {
+      heapPush(freeLanes, heapPop(active, byEnd)!.lane, byLane);
     }
-    if (!aIsOverflow && bIsOverflow) {
-      return -1; // a comes before b (overflow)
+    item.lane = freeLanes.length > 0 ? heapPop(freeLanes, byLane)! : lanes.length;
+    if (item.lane === lanes.length) {
+      lanes.push([]);
     }
-    
-    const startA = a.startTime.toMinutes();
-    const startB = b.startTime.toMinutes();
-    if (startA !== startB) {
-      return startA - startB;
+    lanes[item.lane].push(item);
+    heapPush(active, item, byEnd);
+  }
+
+  for (const item of items.filter(isOverflow).sort(byStart)) {
+    item.lane = lanes.findIndex(lane => isLaneFree(lane, item.start, item.end));
+    if (item.lane < 0) {
+      item.lane = lanes.length;
+      lanes.push([]);
     }
+    const lane = lanes[item.lane];
+    lane.splice(findFirstEndingAfter(lane, item.start), 0, item);
+  }
 
-    return b.endTime.toMinutes() - a.endTime.toMinutes();
-  });
-  
-  const lanes: ScheduleEvent[][] = [];
-  const laneMap = new Map<string, LaneInfo>();
-  
-  for (const event of sorted) {
-    let assigned = false;
-    for (let i = 0; i < lanes.length; i++) {
-      const laneEvents = lanes[i];
-      const hasOverlap = laneEvents.some(e => eventsOverlap(e, event));
-      if (!hasOverlap) {
-        laneEvents.push(event);
-        laneMap.set(event.id, { laneIndex: i, totalLanes: 0 }); // totalLanes will be updated in second pass
-        assigned = true;
-        break;
+  // Conflict groups: runs of start-sorted events that start before the run's latest end
+  const sorted = [...items].sort(byStart);
+  let groupStart = 0;
+  let groupEnd = -Infinity;
+  for (let i = 0; i <= sorted.length; i++) {
+    if (i < sorted.length && sorted[i].start < groupEnd) {
+      groupEnd = Math.max(groupEnd, sorted[i].end);
+      continue;
+    }
+
+    const group = sorted.slice(groupStart, i);
+    const totalLanes = Math.max(0, ...group.map(item => item.lane)) + 1;
+    for (const item of group) {
+      const info: LaneInfo = { laneIndex: item.lane, totalLanes };
+      if (mode === LaneLayout.Expand) {
+        let laneSpan = 1;
+        while (item.lane + laneSpan < totalLanes && isLaneFree(lanes[item.lane + laneSpan], item.start, item.end)) {
+          laneSpan++;
+        }
+        info.laneSpan = laneSpan;
       }
+      laneMap.set(item.event, info);
     }
-    
-    if (!assigned) {
-      lanes.push([event]);
-      laneMap.set(event.id, { laneIndex: lanes.length - 1, totalLanes: 0 }); // totalLanes will be updated in second pass
+
+    if (i < sorted.length) {
+      groupStart = i;
+      groupEnd = sorted[i].end;
     }
   }
-  
-  // Second pass: find conflict groups and update totalLanes
-  // A conflict group is a set of events that all overlap with each other (transitively)
-  const conflictGroups: Set<string>[] = [];
-  
-  for (const event of sorted) {
-    // Find which conflict group this event belongs to
-    let groupFound = false;
-    for (const group of conflictGroups) {
-      for (const eventId of group) {
-        const otherEvent = sorted.find(e => e.id === eventId);
-        if (otherEvent && eventsOverlap(event, otherEvent)) {
-          group.add(event.id);
-          groupFound = true;
-          break;
-        }
+
+  return laneMap;
+}
+
+/**
+ * Index of the first range of a lane ending after `minutes` (lane.length when none does)
+ */
+function findFirstEndingAfter(lane: SpanRange[], minutes: number): number {
+  let low = 0;
+  let high = lane.length;
+  while (low < high) {
+    const mid = (low + high) >> 1;
+    if (lane[mid].end > minutes) {
+      high = mid;
+    } else {
+      low = mid + 1;
+    }
+  }
+  return low;
+}
+
+/**
+ * Check that no range of a lane overlaps start-end
+ */
+function isLaneFree(lane: SpanRange[], start: number, end: number): boolean {
+  const next = lane[findFirstEndingAfter(lane, start)];
+  return next === undefined || next.start >= end;
+}
+
+/**
+ * Add an item to a binary min-heap ordered by `compare`
+ */
+function heapPush<T>(heap: T[], item: T, compare: (a: T, b: T) => number): void {
+  heap.push(item);
+  let i = heap.length - 1;
+  while (i > 0) {
+    const parent = (i - 1) >> 1;
+    if (compare(heap[i], heap[parent]) >= 0) break;
+    [heap[i], heap[parent]] = [heap[parent], heap[i]];
+    i = parent;
+  }
+}
+
+/**
+ * Remove and return the smallest item of a binary min-heap ordered by `compare`
+ */
+function heapPop<T>(heap: T[], compare: (a: T, b: T) => number): T | undefined {
+  const top = heap[0];
+  const last = heap.pop();
+  if (heap.length === 0 || last === undefined) return top;
+
+  heap[0] = last;
+  let i = 0;
+  for (;;) {
+    const left = i * 2 + 1;
+    const right = left + 1;
+    let smallest = i;
+    if (left < heap.length && compare(heap[left], heap[smallest]) < 0) smallest = left;
+    if (right < heap.length && compare(heap[right], heap[smallest]) < 0) smallest = right;
+    if (smallest === i) break;
+    [heap[i], heap[smallest]] = [heap[smallest], heap[i]];
+    i = smallest;
+  }
+  return top;
+}
+
+
+/**
+ * Lanes a day may show side by side: maxVisibleLanes, lowered so that no lane is narrower than minEventWidthPx
+ * @param config - Schedule configuration
+ * @param laneSpace - Width of a day column (height of a day row when horizontal) per resource, in pixels
+ * @returns At least 1
+ */
+export function getVisibleLaneLimit(
+  config: Pick<ScheduleConfig, 'maxVisibleLanes' | 'minEventWidthPx'>,
+  laneSpace: number
+): number {
+  const maxLanes = config.maxVisibleLanes ?? DEFAULT_MAX_VISIBLE_LANES;
+  if (!config.minEventWidthPx || !(laneSpace > 0)) {
+    return Math.max(1, maxLanes);
+  }
+  return Math.max(1, Math.min(maxLanes, Math.floor(laneSpace / config.minEventWidthPx)));
+}
+
+/**
+ * Create the cluster factory of one render
+ * Clusters are numbered in the order they are made, and list the events their hidden segments
+ * were projected from (matched by id, each once), so hosts get their own event objects back.
+ * @param sourceEvents - Events given to the schedule; hidden events not among them are listed as they are
+ */
+export function createOverflowClusterFactory(sourceEvents: ScheduleEvent[] = []): OverflowClusterFactory {
+  const sources = new Map(sourceEvents.map(event => [event.id, event]));
+  let count = 0;
+  return hiddenEvents => {
+    const events = new Map<string, ScheduleEvent>();
+    for (const hidden of hiddenEvents) {
+      if (!events.has(hidden.id)) {
+        events.set(hidden.id, sources.get(hidden.id) ?? hidden);
       }
-      if (groupFound) break;
     }
-    
-    // If not in any group, create new group
-    if (!groupFound) {
-      const newGroup = new Set<string>([event.id]);
-      let changed = true;
-      while (changed) {
-        changed = false;
-        for (const otherEvent of sorted) {
-          if (newGroup.has(otherEvent.id)) continue;
-          
-          for (const eventId of newGroup) {
-            const groupEvent = sorted.find(e => e.id === eventId);
-            if (groupEvent && eventsOverlap(groupEvent, otherEvent)) {
-              newGroup.add(otherEvent.id);
-              changed = true;
-              break;
-            }
-          }
-        }
+    return { id: String(count++), events: [...events.values()] };
+  };
+}
+
+/**
+ * Collapse overlapping lanes that don't fit into overflow indicators.
+ * If a day needs maxVisibleLanes or fewer lanes all of them are shown, otherwise only
+ * maxVisibleLanes - 1 lanes are kept and the hidden events are clustered into overflow
+ * indicator events (OverflowIndicator, carrying the OverflowCluster of hidden events).
+ * Lanes holding events with a higher lanePriority are swapped into view.
+ * @param day - Day the events belong to
+ * @param dayEvents - Events on that day
+ * @param overflowIndicatorFormat - Optional formatter for the overflow indicator title
+ * @param maxVisibleLanes - Most lanes shown side by side, overflow indicators included (default: 3)
+ * @param createCluster - Ids and events of the clusters; share one factory between the days of a render
+ *   so cluster ids stay unique (default: a new factory listing the hidden events themselves)
+ * @returns Overflow indicators followed by the visible events
+ */
+export function compressDayEvents(
+  day: DayOfWeek,
+  dayEvents: ScheduleEvent[],
+  overflowIndicatorFormat?: (overflowEvents: number) => string,
+  maxVisibleLanes: number = DEFAULT_MAX_VISIBLE_LANES,
+  createCluster: OverflowClusterFactory = createOverflowClusterFactory()
+): ScheduleEvent[] {
+  const compressedEvents: ScheduleEvent[] = [];
+  const dayLaneMap = assignLanes(dayEvents);
+
+  // Determine visibility threshold based on total lanes
+  const maxLaneIndex = Math.max(0, ...Array.from(dayLaneMap.values()).map(info => info.laneIndex));
+
+  // If all lanes fit, show all of them.
+  // If there are more, keep one lane free for the overflow indicators.
+  const visibleThreshold = maxLaneIndex < maxVisibleLanes ? maxVisibleLanes : maxVisibleLanes - 1;
+
+  // Group events by lane index
+  const eventsByLane = new Map<number, ScheduleEvent[]>();
+  dayEvents.forEach(ev => {
+    const info = dayLaneMap.get(ev);
+    if (info) {
+      if (!eventsByLane.has(info.laneIndex)) {
+        eventsByLane.set(info.laneIndex, []);
       }
-      conflictGroups.push(newGroup);
+      eventsByLane.get(info.laneIndex)!.push(ev);
+    }
+  });
+
+  // Calculate max priority for each lane
+  const lanePriorities = new Map<number, number>();
+  for (const [laneIndex, laneEvents] of eventsByLane.entries()) {
+    const maxPriority = Math.max(...laneEvents.map(ev => ev.lanePriority ?? 0));
+    lanePriorities.set(laneIndex, maxPriority);
+  }
+
+  // Determine which lanes are visible vs hidden based on threshold
+  const visibleLaneIndices = new Set<number>();
+  const hiddenLaneIndices = new Set<number>();
+  for (const laneIndex of eventsByLane.keys()) {
+    if (laneIndex < visibleThreshold) {
+      visibleLaneIndices.add(laneIndex);
+    } else {
+      hiddenLaneIndices.add(laneIndex);
     }
   }
-  
-  for (const group of conflictGroups) {
-    const lanesUsed = new Set<number>();
-    for (const eventId of group) {
-      const info = laneMap.get(eventId);
-      if (info) {
-        lanesUsed.add(info.laneIndex);
+
+  // Check if any hidden lane should swap with a visible lane based on priority
+  // Find the hidden lane with highest priority
+  let highestHiddenPriority = -Infinity;
+  let highestHiddenLane = -1;
+  for (const laneIndex of hiddenLaneIndices) {
+    const priority = lanePriorities.get(laneIndex) ?? 0;
+    if (priority > highestHiddenPriority) {
+      highestHiddenPriority = priority;
+      highestHiddenLane = laneIndex;
+    }
+  }
+
+  // Find the visible lane with lowest priority (or last visible lane if equal)
+  if (highestHiddenLane >= 0 && highestHiddenPriority > 0) {
+    let lowestVisiblePriority = Infinity;
+    let lowestVisibleLane = -1;
+    for (const laneIndex of visibleLaneIndices) {
+      const priority = lanePriorities.get(laneIndex) ?? 0;
+      // Use <= to prefer higher lane indices (last visible lane) when priorities are equal
+      if (priority < lowestVisiblePriority || (priority <= lowestVisiblePriority && laneIndex > lowestVisibleLane)) {
+        lowestVisiblePriority = priority;
+        lowestVisibleLane = laneIndex;
       }
     }
-    const maxLanes = lanesUsed.size;
-    
-    for (const eventId of group) {
-      const info = laneMap.get(eventId);
-      if (info) {
-        laneMap.set(eventId, { ...info, totalLanes: maxLanes });
+
+    // Swap if hidden lane has higher priority than lowest visible lane
+    if (lowestVisibleLane >= 0 && highestHiddenPriority > lowestVisiblePriority) {
+      visibleLaneIndices.delete(lowestVisibleLane);
+      visibleLaneIndices.add(highestHiddenLane);
+      hiddenLaneIndices.delete(highestHiddenLane);
+      hiddenLaneIndices.add(lowestVisibleLane);
+    }
+  }
+
+  // Split events into visible and hidden based on final lane visibility
+  const visibleDayEvents: ScheduleEvent[] = [];
+  const hiddenDayEvents: ScheduleEvent[] = [];
+
+  dayEvents.forEach(ev => {
+    const info = dayLaneMap.get(ev);
+    if (info && visibleLaneIndices.has(info.laneIndex)) {
+      visibleDayEvents.push(ev);
+    } else {
+      hiddenDayEvents.push(ev);
+    }
+  });
+
+  // Cluster hidden events and create overflow indicators
+  if (hiddenDayEvents.length > 0) {
+    // Sort hidden by start time for clustering
+    hiddenDayEvents.sort((a, b) => getAxisStartMinutes(a) - getAxisStartMinutes(b));
+
+    let currentCluster: ScheduleEvent[] = [hiddenDayEvents[0]];
+    let currentClusterEnd = getAxisEndMinutes(hiddenDayEvents[0]);
+
+    const addOverflowForCluster = (cluster: ScheduleEvent[]) => {
+      const earliest = cluster.reduce((min, e) => (getAxisStartMinutes(e) < getAxisStartMinutes(min) ? e : min), cluster[0]);
+      const latest = cluster.reduce((max, e) => (getAxisEndMinutes(e) > getAxisEndMinutes(max) ? e : max), cluster[0]);
+      const hiddenCount = cluster.length;
+      const title = overflowIndicatorFormat ? overflowIndicatorFormat(hiddenCount) : `+${hiddenCount} more`;
+      const overflowCluster: OverflowCluster = {
+        ...createCluster(cluster),
+        day,
+        resourceId: earliest.resourceId,
+        startTime: earliest.startTime,
+        endTime: latest.endTime
+      };
+      const indicator: OverflowIndicator = {
+        id: overflowCluster.id,
+        day,
+        resourceId: earliest.resourceId,
+        startTime: earliest.startTime,
+        endTime: latest.endTime,
+        title,
+        description: undefined,
+        axisStartMinutes: getAxisStartMinutes(earliest),
+        axisEndMinutes: getAxisEndMinutes(latest),
+        eventStartMinutes: getAxisStartMinutes(earliest),
+        overflowCluster,
+        hiddenSegments: cluster
+      };
+
+      compressedEvents.push(indicator);
+    };
+
+    for (let i = 1; i < hiddenDayEvents.length; i++) {
+      const ev = hiddenDayEvents[i];
+      const start = getAxisStartMinutes(ev);
+      const end = getAxisEndMinutes(ev);
+
+      if (start < currentClusterEnd) {
+        currentCluster.push(ev);
+        currentClusterEnd = Math.max(currentClusterEnd, end);
+      } else {
+        addOverflowForCluster(currentCluster);
+        currentCluster = [ev];
+        currentClusterEnd = end;
       }
     }
+    addOverflowForCluster(currentCluster);
   }
-  
-  return laneMap;
-}
 
+  compressedEvents.push(...visibleDayEvents);
+
+  return compressedEvents;
+}
@@ -0,0 +1,141 @@
+import type { OverflowCluster, ScheduleEvent, TimeFormatter, Translator } from '../types';
+import { TranslationKey } from '../types';
+import { createOverflowPopoverHTML } from '../templates/eventTemplate';
+
+/**
+ * Options of openOverflowPopover()
+ */
+export interface OverflowPopoverOptions {
+  /** Element the popover is added to (the schedule container) */
+  container: HTMLElement;
+  /** Viewport rectangle of the overflow indicator; the popover opens below it, or above when there is no room */
+  anchorRect: Pick<DOMRect, 'left' | 'top' | 'bottom'>;
+  /** Cluster whose events are listed */
+  cluster: OverflowCluster;
+  /** Hidden events as the schedule shows them (times in its time zone), in start order */
+  events: ScheduleEvent[];
+  /** Formats the event times */
+  formatTime: TimeFormatter;
+  /** Translator for the ARIA label */
+  translate: Translator;
+  /** Called with the id of the event picked from the list (click, Enter or Space) */
+  onSelect: (eventId: string) => void;
+  /** Focused again when the popover is closed with Escape or by picking an event */
+  returnFocus?: HTMLElement;
+}
+
+const POPOVER_OFFSET = 4;
+
+/**
+ * Open a popover listing the hidden events of an overflow cluster
+ * ArrowUp/ArrowDown/Home/End move between the events, Enter/Space pick one, Escape, Tab,
+ * a pointer down outside and scrolling close the popover.
+ * @returns Function closing the popover (safe to call more than once)
+ */
+export function openOverflowPopover(options: OverflowPopoverOptions): () => void {
+  const { container, anchorRect, cluster, events, formatTime, translate, onSelect, returnFocus } = options;
+  const label = translate(TranslationKey.overflowPopoverLabel, {
+    start: formatTime(cluster.startTime),
+    end: formatTime(cluster.endTime)
+  });
+
+  const template = document.createElement('template');
+  template.innerHTML = createOverflowPopoverHTML(events, label, formatTime).trim();
+  const popover = template.content.firstElementChild as HTMLElement;
+  container.appendChild(popover);
+
+  // Fixed to the viewport, so the popover is not clipped by the scrolling grid
+  const { width, height } = popover.getBoundingClientRect();
+  const fitsBelow = anchorRect.bottom + POPOVER_OFFSET + height <= window.innerHeight;
+  const top = fitsBelow ? anchorRect.bottom + POPOVER_OFFSET : Math.max(0, anchorRect.top - POPOVER_OFFSET - height);
+  const left = Math.max(0, Math.min(anchorRect.left, window.innerWidth - width));
+  popover.style.top = `${top}px`;
+  popover.style.left = `${left}px`;
+
+  const items = Array.from(popover.querySelectorAll<HTMLElement>('.overflow-popover-item'));
+  const focusItem = (index: number) => {
+    items.forEach((item, i) => item.setAttribute('tabindex', i === index ? '0' : '-1'));
+    items[index]?.focus();
+  };
+
+  let closed = false;
+  const close = (restoreFocus = false) => {
+    if (closed) return;
+    closed = true;
+    document.removeEventListener('pointerdown', onPointerDown, true);
+    document.removeEventListener('scroll', onScroll, true);
+    popover.remove();
+    if (restoreFocus) {
+      returnFocus?.focus();
+    }
+  };
+
+  const select = (item: HTMLElement) => {
+    const eventId = item.getAttribute('data-event-id');
+    close(true);
+    if (eventId !== null) {
+      onSelect(eventId);
+    }
+  };
+
+  popover.addEventListener('click', (e: MouseEvent) => {
+    const item = (e.target as HTMLElement).closest<HTMLElement>('.overflow-popover-item');
+    if (item) {
+      e.stopPropagation();
+      select(item);
+    }
+  });
+
+  popover.addEventListener('keydown', (e: KeyboardEvent) => {
+    const index = items.indexOf(document.activeElement as HTMLElement);
+    switch (e.key) {
+      case 'ArrowDown':
+        e.preventDefault();
+        focusItem(Math.min(items.length - 1, index + 1));
+        break;
+      case 'ArrowUp':
+        e.preventDefault();
+        focusItem(Math.max(0, index - 1));
+        break;
+      case 'Home':
+        e.preventDefault();
+        focusItem(0);
+        break;
+      case 'End':
+        e.preventDefault();
+        focusItem(items.length - 1);
+        break;
+      case 'Enter':
+      case ' ':
+        if (index >= 0) {
+          e.preventDefault();
+          select(items[index]);
+        }
+        break;
+      case 'Escape':
+        e.preventDefault();
+        e.stopPropagation();
+        close(true);
+        break;
+      case 'Tab':
+        close();
+        break;
+    }
+  });
+
+  const onPointerDown = (e: PointerEvent) => {
+    if (!popover.contains(e.target as Node)) {
+      close();
+    }
+  };
+  const onScroll = (e: Event) => {
+    if (!popover.contains(e.target as Node)) {
+      close();
+    }
+  };
+  document.addEventListener('pointerdown', onPointerDown, true);
+  document.addEventListener('scroll', onScroll, true);
+
+  focusItem(0);
+  return () => close();
+}
@@ -0,0 +1,257 @@
+import type { RecurrenceRule, RecurringEventSeries, ScheduleEvent, ValidationError } from '../types';
+import type { Result } from '../types/internal';
+import { DayOfWeek } from '../types';
+import { validateEvent } from './validators';
+import { addDays, daysBetween, getDayOfWeekFromDate, isValidDate, startOfDay, startOfWeek, toDateKey } from './dateHelpers';
+
+/**
+ * RRULE weekday codes mapped to DayOfWeek
+ */
+const RRULE_DAYS: Record<string, DayOfWeek> = {
+  MO: DayOfWeek.Monday,
+  TU: DayOfWeek.Tuesday,
+  WE: DayOfWeek.Wednesday,
+  TH: DayOfWeek.Thursday,
+  FR: DayOfWeek.Friday,
+  SA: DayOfWeek.Saturday,
+  SU: DayOfWeek.Sunday
+};
+
+/**
+ * Parse an RFC 5545 date or date-time value (e.g. "20241220" or "20241220T235959Z")
+ * Only the date part is kept, as local midnight
+ */
+export function parseRRuleDate(value: string): Date | null {
+  const match = /^(\d{4})(\d{2})(\d{2})(T\d{6}Z?)?$/.exec(value);
+  if (!match) return null;
+
+  const year = Number(match[1]);
+  const month = Number(match[2]) - 1;
+  const day = Number(match[3]);
+  const date = new Date(year, month, day);
+  if (date.getFullYear() !== year || date.getMonth() !== month || date.getDate() !== day) {
+    return null;
+  }
+  return date;
+}
+
+/**
+ * Parse the supported RRULE subset: FREQ=WEEKLY|DAILY, BYDAY, INTERVAL, COUNT, UNTIL
+ * A leading "RRULE:" is accepted. Other parts (BYMONTH, BYSETPOS, ...) are reported as errors
+ * so rules are never silently expanded differently from other calendar apps.
+ */
+export function parseRRule(rrule: string): Result<RecurrenceRule, ValidationError[]> {
+  const errors: ValidationError[] = [];
+
+  if (typeof rrule !== 'string' || rrule.trim().length === 0) {
+    return {
+      success: false,
+      error: [{ field: 'rrule', message: 'rrule must be a non-empty string', value: rrule }]
+    };
+  }
+
+  const parts = new Map<string, string>();
+  for (const part of rrule.trim().replace(/^RRULE:/i, '').split(';')) {
+    if (part.length === 0) continue;
+    const [key, value] = part.split('=');
+    if (!key || value === undefined) {
+      errors.push({ field: 'rrule', message: `Malformed RRULE part "${part}"`, value: part });
+      continue;
+    }
+    parts.set(key.toUpperCase(), value.toUpperCase());
+  }
+
+  const rule: RecurrenceRule = { freq: 'WEEKLY', interval: 1 };
+
+  const freq = parts.get('FREQ');
+  if (freq === 'WEEKLY' || freq === 'DAILY') {
+    rule.freq = freq;
+  } else {
+    errors.push({ field: 'rrule.FREQ', message: 'FREQ must be WEEKLY or DAILY', value: freq });
+  }
+
+  const interval = parts.get('INTERVAL');
+  if (interval !== undefined) {
+    const n = Number(interval);
+    if (Number.isInteger(n) && n > 0) {
+      rule.interval = n;
+    } else {
+      errors.push({ field: 'rrule.INTERVAL', message: 'INTERVAL must be a positive integer', value: interval });
+    }
+  }
+
+  const count = parts.get('COUNT');
+  if (count !== undefined) {
+    const n = Number(count);
+    if (Number.isInteger(n) && n > 0) {
+      rule.count = n;
+    } else {
+      errors.push({ field: 'rrule.COUNT', message: 'COUNT must be a positive integer', value: count });
+    }
+  }
+
+  const until = parts.get('UNTIL');
+  if (until !== undefined) {
+    const date = parseRRuleDate(until);
+    if (date) {
+      rule.until = date;
+    } else {
+      errors.push({ field: 'rrule.UNTIL', message: 'UNTIL must be a date (YYYYMMDD) or date-time (YYYYMMDDTHHMMSSZ)', value: until });
+    }
+  }
+
+  if (count !== undefined && until !== undefined) {
+    errors.push({ field: 'rrule', message: 'COUNT and UNTIL must not be used together', value: rrule });
+  }
+
+  const byDay = parts.get('BYDAY');
+  if (byDay !== undefined) {
+    const days: DayOfWeek[] = [];
+    for (const code of byDay.split(',')) {
+      const day = RRULE_DAYS[code];
+      if (day === undefined) {
+        errors.push({ field: 'rrule.BYDAY', message: `Unsupported BYDAY value "${code}"`, value: code });
+      } else if (!days.includes(day)) {
+        days.push(day);
+      }
+    }
+    rule.byDay = days;
+  }
+
+  for (const key of parts.keys()) {
+    if (!['FREQ', 'INTERVAL', 'COUNT', 'UNTIL', 'BYDAY'].includes(key)) {
+      errors.push({ field: `rrule.${key}`, message: `Unsupported RRULE part ${key}`, value: parts.get(key) });
+    }
+  }
+
+  if (errors.length > 0) {
+    return { success: false, error: errors };
+  }
+
+  return { success: true, data: rule };
+}
+
+/**
+ * Expand a recurring series into the events that fall inside a date range
+ * Occurrences are generated from the series start so COUNT and INTERVAL stay anchored to it;
+ * EXDATEs are removed afterwards and keep their occurrence index.
+ * Event ids are `${series.id}@YYYY-MM-DD` and each event carries `recurrence` info.
+ * @param series - Series to expand
+ * @param rangeStart - First date of the range (inclusive)
+ * @param rangeEnd - Last date of the range (exclusive)
+ * @returns Result containing the events in the range, or validation errors for the series
+ */
+export function expandRecurrence(
+  series: RecurringEventSeries,
+  rangeStart: Date,
+  rangeEnd: Date
+): Result<ScheduleEvent[], ValidationError[]> {
+  const errors: ValidationError[] = [];
+
+  if (!isValidDate(series.start)) {
+    errors.push({ field: 'start', message: 'start must be a valid Date instance', value: series.start });
+  }
+
+  (series.exdates ?? []).forEach((date, index) => {
+    if (!isValidDate(date)) {
+      errors.push({ field: `exdates[${index}]`, message: 'exdates must contain valid Date instances', value: date });
+    }
+  });
+
+  const ruleResult = parseRRule(series.rrule);
+  if (!ruleResult.success) {
+    errors.push(...ruleResult.error);
+  }
+
+  if (errors.length > 0 || !ruleResult.success) {
+    return { success: false, error: errors };
+  }
+
+  const { rrule: _rrule, start: _start, exdates: _exdates, ...eventFields } = series;
+  const start = startOfDay(series.start);
+
+  // Reuse the event rules (id, title, time order) on a sample occurrence
+  const sample = validateEvent({ ...eventFields, day: getDayOfWeekFromDate(start), date: start });
+  if (!sample.success) {
+    return { success: false, error: sample.error };
+  }
+
+  const rule = ruleResult.data;
+  const byDay = rule.byDay ?? (rule.freq === 'WEEKLY' ? [getDayOfWeekFromDate(start)] : undefined);
+  const excluded = new Set((series.exdates ?? []).map(toDateKey));
+  const firstWeek = startOfWeek(start);
+  const from = startOfDay(rangeStart);
+  const to = startOfDay(rangeEnd);
+
+  const events: ScheduleEvent[] = [];
+  let occurrenceIndex = 0;
+
+  for (let date = start; date < to; date = addDays(date, 1)) {
+    if (rule.until && date > rule.until) break;
+    if (rule.count !== undefined && occurrenceIndex >= rule.count) break;
+
+    const day = getDayOfWeekFromDate(date);
+    const period = rule.freq === 'WEEKLY'
+      ? Math.floor(daysBetween(firstWeek, date) / 7)
+      : daysBetween(start, date);
+    if (period % rule.interval !== 0) continue;
+    if (byDay && !byDay.includes(day)) continue;
+
+    const dateKey = toDateKey(date);
+    if (date >= from && !excluded.has(dateKey)) {
+      events.push({
+        ...eventFields,
+        id: `${series.id}@${dateKey}`,
+        day,
+        date,
+        recurrence: { seriesId: series.id, occurrenceIndex, occurrenceDate: date }
+      });
+    }
+    occurrenceIndex++;
+  }
+
+  return { success: true, data: events };
+}
+
+/**
+ * Expand recurring series into the events of one week
+ * Pass `schedule.getWeekStart()` to get the events of a date-anchored schedule's visible week.
+ * Field names of errors are prefixed with the series index (e.g., "series[1].rrule.FREQ").
+ * @param seriesList - Series to expand
+ * @param weekStart - Any date in the week (normalized to its first day)
+ * @param firstDayOfWeek - Day weeks start on, as configured on the schedule (default: Monday)
+ */
+export function expandRecurrenceForWeek(
+  seriesList: RecurringEventSeries[],
+  weekStart: Date,
+  firstDayOfWeek: DayOfWeek = DayOfWeek.Monday
+): Result<ScheduleEvent[], ValidationError[]> {
+  if (!isValidDate(weekStart)) {
+    return {
+      success: false,
+      error: [{ field: 'weekStart', message: 'weekStart must be a valid Date instance', value: weekStart }]
+    };
+  }
+
+  const firstDay = startOfWeek(weekStart, firstDayOfWeek);
+  const weekEnd = addDays(firstDay, 7);
+  const events: ScheduleEvent[] = [];
+  const errors: ValidationError[] = [];
+
+  seriesList.forEach((series, index) => {
+    const result = expandRecurrence(series, firstDay, weekEnd);
+    if (result.success) {
+      events.push(...result.data);
+    } else {
+      result.error.forEach(err => {
+        errors.push({ ...err, field: `series[${index}].${err.field}` });
+      });
+    }
+  });
+
+  if (errors.length > 0) {
+    return { success: false, error: errors };
+  }
+
+  return { success: true, data: events };
+}
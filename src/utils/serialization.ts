@@ -0,0 +1,317 @@
+import type {
+  DeserializedSchedule,
+  ScheduleConfig,
+  ScheduleEvent,
+  SerializedSchedule,
+  SerializedScheduleConfig,
+  SerializedScheduleEvent,
+  ValidationError
+} from '../types';
+import type { Result } from '../types/internal';
+import { TimeOnly } from '../types';
+import { validateConfig, validateEvent } from './validators';
+import { isValidDate, parseDateKey, toDateKey } from './dateHelpers';
+
+/**
+ * Convert an event to its JSON form
+ */
+export function serializeEvent(event: ScheduleEvent): SerializedScheduleEvent {
+  const { startTime, endTime, date, recurrence, ...rest } = event;
+  const serialized: SerializedScheduleEvent = {
+    ...rest,
+    startTime: startTime.toString(),
+    endTime: endTime.toString()
+  };
+  if (date) {
+    serialized.date = toDateKey(date);
+  }
+  if (recurrence) {
+    serialized.recurrence = { ...recurrence, occurrenceDate: toDateKey(recurrence.occurrenceDate) };
+  }
+  return serialized;
+}
+
+/**
+ * Convert a configuration to its JSON form
+ * Function options (renderEvent, overflowIndicatorFormat, renderOverflow, formatDate, formatTime, clock) are dropped
+ */
+export function serializeConfig(config: ScheduleConfig): SerializedScheduleConfig {
+  const {
+    renderEvent: _renderEvent,
+    overflowIndicatorFormat: _overflow,
+    renderOverflow: _renderOverflow,
+    formatDate: _formatDate,
+    formatTime: _formatTime,
+    clock: _clock,
+    weekStartDate,
+    visibleStart,
+    visibleEnd,
+    backgrounds,
+    ...rest
+  } = config;
+  const serialized: SerializedScheduleConfig = { ...rest };
+  if (weekStartDate) {
+    serialized.weekStartDate = toDateKey(weekStartDate);
+  }
+  if (visibleStart) {
+    serialized.visibleStart = visibleStart.toString();
+  }
+  if (visibleEnd) {
+    serialized.visibleEnd = visibleEnd.toString();
+  }
+  if (backgrounds) {
+    serialized.backgrounds = backgrounds.map(({ startTime, endTime, ...background }) => ({
+      ...background,
+      ...(startTime ? { startTime: startTime.toString() } : {}),
+      ...(endTime ? { endTime: endTime.toString() } : {})
+    }));
+  }
+  return serialized;
+}
+
+/**
+ * Serialize events and (optionally) configuration to a JSON string
+ * @param events - Events to serialize
+ * @param config - Optional configuration, e.g. from `schedule.getConfig()`
+ * @returns JSON string that deserializeSchedule() turns back into the same events and config
+ */
+export function serializeSchedule(events: ScheduleEvent[], config?: ScheduleConfig): string {
+  const document: SerializedSchedule = {
+    version: 1,
+    ...(config ? { config: serializeConfig(config) } : {}),
+    events: events.map(serializeEvent)
+  };
+  return JSON.stringify(document);
+}
+
+/**
+ * Read a time field that may be a TimeOnly or an "HH:mm" string
+ */
+function hydrateTime(value: unknown, field: string, errors: ValidationError[]): unknown {
+  if (typeof value !== 'string') return value;
+
+  const parsed = TimeOnly.parse(value);
+  if (!parsed.success) {
+    errors.push({ field, message: `${field} must be an "HH:mm" string`, value });
+    return undefined;
+  }
+  return parsed.data;
+}
+
+/**
+ * Read a date field that may be a Date or a "YYYY-MM-DD" string
+ */
+function hydrateDate(value: unknown, field: string, errors: ValidationError[]): unknown {
+  if (typeof value !== 'string') return value;
+
+  const date = parseDateKey(value);
+  if (!date) {
+    errors.push({ field, message: `${field} must be a "YYYY-MM-DD" string`, value });
+    return undefined;
+  }
+  return date;
+}
+
+/**
+ * Turn one JSON event into a ScheduleEvent
+ * Accepts "HH:mm" strings or TimeOnly instances for times and "YYYY-MM-DD" strings or Dates for dates
+ */
+export function deserializeEvent(input: unknown): Result<ScheduleEvent, ValidationError[]> {
+  if (typeof input !== 'object' || input === null || Array.isArray(input)) {
+    return {
+      success: false,
+      error: [{ field: 'event', message: 'Event must be an object', value: input }]
+    };
+  }
+
+  const raw = input as Record<string, unknown>;
+  const errors: ValidationError[] = [];
+  const hydrated: Record<string, unknown> = {
+    ...raw,
+    startTime: hydrateTime(raw.startTime, 'startTime', errors),
+    endTime: hydrateTime(raw.endTime, 'endTime', errors)
+  };
+
+  if (raw.date !== undefined) {
+    hydrated.date = hydrateDate(raw.date, 'date', errors);
+  }
+
+  if (raw.recurrence !== undefined) {
+    const recurrence = raw.recurrence as Record<string, unknown> | null;
+    if (typeof recurrence !== 'object' || recurrence === null || typeof recurrence.seriesId !== 'string') {
+      errors.push({ field: 'recurrence', message: 'recurrence must be an object with a seriesId', value: raw.recurrence });
+    } else {
+      const occurrenceDate = hydrateDate(recurrence.occurrenceDate, 'recurrence.occurrenceDate', errors);
+      if (!isValidDate(occurrenceDate) && !errors.some(e => e.field === 'recurrence.occurrenceDate')) {
+        errors.push({ field: 'recurrence.occurrenceDate', message: 'recurrence.occurrenceDate must be a date', value: occurrenceDate });
+      }
+      hydrated.recurrence = { ...recurrence, occurrenceDate };
+    }
+  }
+
+  // Fields that failed to hydrate are already reported; validate the rest with the regular event rules
+  const validation = validateEvent(hydrated);
+  if (!validation.success) {
+    const reported = new Set(errors.map(e => e.field));
+    errors.push(...validation.error.filter(e => !reported.has(e.field)));
+  }
+
+  if (errors.length > 0) {
+    return { success: false, error: errors };
+  }
+
+  return { success: true, data: hydrated as unknown as ScheduleEvent };
+}
+
+/**
+ * Turn a JSON array of events (e.g. a REST API response) into ScheduleEvents
+ * Field names of errors are prefixed with the event index (e.g., "events[2].startTime")
+ * @param input - Array of events, or a JSON string holding one
+ */
+export function deserializeEvents(input: unknown): Result<ScheduleEvent[], ValidationError[]> {
+  const parsed = parseJSONInput(input);
+  if (!parsed.success) {
+    return parsed;
+  }
+  return deserializeEventArray(parsed.data);
+}
+
+function deserializeEventArray(input: unknown): Result<ScheduleEvent[], ValidationError[]> {
+  if (!Array.isArray(input)) {
+    return {
+      success: false,
+      error: [{ field: 'events', message: 'events must be an array', value: input }]
+    };
+  }
+
+  const events: ScheduleEvent[] = [];
+  const errors: ValidationError[] = [];
+  input.forEach((item, index) => {
+    const result = deserializeEvent(item);
+    if (result.success) {
+      events.push(result.data);
+    } else {
+      result.error.forEach(err => {
+        errors.push({ ...err, field: `events[${index}].${err.field}` });
+      });
+    }
+  });
+
+  if (errors.length > 0) {
+    return { success: false, error: errors };
+  }
+
+  return { success: true, data: events };
+}
+
+/**
+ * Turn a JSON configuration into a ScheduleConfig
+ * Field names of errors are prefixed with "config." (e.g., "config.startHour")
+ */
+export function deserializeConfig(input: unknown): Result<ScheduleConfig, ValidationError[]> {
+  if (typeof input !== 'object' || input === null || Array.isArray(input)) {
+    return {
+      success: false,
+      error: [{ field: 'config', message: 'Config must be an object', value: input }]
+    };
+  }
+
+  const raw = input as Record<string, unknown>;
+  const errors: ValidationError[] = [];
+  const hydrated: Record<string, unknown> = { ...raw };
+  if (raw.weekStartDate !== undefined) {
+    hydrated.weekStartDate = hydrateDate(raw.weekStartDate, 'weekStartDate', errors);
+  }
+  for (const field of ['visibleStart', 'visibleEnd'] as const) {
+    if (raw[field] !== undefined) {
+      hydrated[field] = hydrateTime(raw[field], field, errors);
+    }
+  }
+  if (Array.isArray(raw.backgrounds)) {
+    hydrated.backgrounds = raw.backgrounds.map((background: unknown, index) => {
+      if (typeof background !== 'object' || background === null) return background;
+
+      const range: Record<string, unknown> = { ...background };
+      for (const field of ['startTime', 'endTime'] as const) {
+        if (range[field] !== undefined) {
+          range[field] = hydrateTime(range[field], `backgrounds[${index}].${field}`, errors);
+        }
+      }
+      return range;
+    });
+  }
+
+  const validation = validateConfig(hydrated);
+  if (!validation.success) {
+    const reported = new Set(errors.map(e => e.field));
+    errors.push(...validation.error.filter(e => !reported.has(e.field)));
+  }
+
+  if (errors.length > 0) {
+    return { success: false, error: errors.map(err => ({ ...err, field: `config.${err.field}` })) };
+  }
+
+  return { success: true, data: hydrated as ScheduleConfig };
+}
+
+/**
+ * Restore events and configuration written by serializeSchedule()
+ * A missing config deserializes to an empty object (component defaults apply).
+ * @param input - JSON string or already parsed object
+ * @returns Result containing events and config, or every validation error found
+ */
+export function deserializeSchedule(input: unknown): Result<DeserializedSchedule, ValidationError[]> {
+  const parsed = parseJSONInput(input);
+  if (!parsed.success) {
+    return parsed;
+  }
+
+  const document = parsed.data as Partial<SerializedSchedule> | null;
+  if (typeof document !== 'object' || document === null || Array.isArray(document)) {
+    return {
+      success: false,
+      error: [{ field: 'schedule', message: 'Schedule must be an object with an events array', value: document }]
+    };
+  }
+
+  const errors: ValidationError[] = [];
+  if (document.version !== undefined && document.version !== 1) {
+    errors.push({ field: 'version', message: 'Unsupported schedule version', value: document.version });
+  }
+
+  const configResult = document.config === undefined
+    ? { success: true as const, data: {} as ScheduleConfig }
+    : deserializeConfig(document.config);
+  if (!configResult.success) {
+    errors.push(...configResult.error);
+  }
+
+  const eventsResult = deserializeEventArray(document.events ?? []);
+  if (!eventsResult.success) {
+    errors.push(...eventsResult.error);
+  }
+
+  if (errors.length > 0 || !configResult.success || !eventsResult.success) {
+    return { success: false, error: errors };
+  }
+
+  return { success: true, data: { config: configResult.data, events: eventsResult.data } };
+}
+
+/**
+ * Parse a JSON string, passing other values through unchanged
+ */
+function parseJSONInput(input: unknown): Result<unknown, ValidationError[]> {
+  if (typeof input !== 'string') {
+    return { success: true, data: input };
+  }
+
+  try {
+    return { success: true, data: JSON.parse(input) };
+  } catch (err) {
+    return {
+      success: false,
+      error: [{ field: 'json', message: `Invalid JSON: ${(err as Error).message}` }]
+    };
+  }
+}
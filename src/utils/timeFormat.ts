@@ -0,0 +1,79 @@
+import type { ScheduleConfig, TimeFormatter, TimeOnly } from '../types';
+import { TimeFormat } from '../types';
+
+/**
+ * Formatters are expensive to create, keep one per locale and hour cycle
+ */
+const formatterCache = new Map<string, Intl.DateTimeFormat>();
+
+/**
+ * @param hourCycle - Forced hour cycle, undefined keeps the locale's own pattern (e.g., "09:30" in en-GB)
+ */
+function getFormatter(locale: string | undefined, hourCycle?: 'h12' | 'h23' | 'h24'): Intl.DateTimeFormat {
+  const key = `${locale ?? ''}|${hourCycle ?? ''}`;
+  let formatter = formatterCache.get(key);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat(locale, { hour: 'numeric', minute: '2-digit', hourCycle, timeZone: 'UTC' });
+    formatterCache.set(key, formatter);
+  }
+  return formatter;
+}
+
+/**
+ * Check that a value is a BCP 47 locale tag Intl accepts (e.g., "en-US")
+ */
+export function isValidLocale(value: unknown): value is string {
+  if (typeof value !== 'string' || value.length === 0) return false;
+  try {
+    Intl.DateTimeFormat.supportedLocalesOf(value);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Clock a locale uses by default (e.g., 12 hour for "en-US", 24 hour for "cs-CZ")
+ * @param locale - BCP 47 locale, the browser locale when undefined
+ */
+export function getLocaleTimeFormat(locale?: string): TimeFormat {
+  const { hour12 } = new Intl.DateTimeFormat(locale, { hour: 'numeric' }).resolvedOptions();
+  return hour12 ? TimeFormat.TwelveHour : TimeFormat.TwentyFourHour;
+}
+
+/**
+ * Format a time with a locale and clock
+ * 24:00 (TimeOnly.endOfDay()) is shown as "24:00" on a 24 hour clock and as midnight on a 12 hour one.
+ * @param time - Time to format
+ * @param locale - BCP 47 locale, the browser locale when undefined
+ * @param timeFormat - Clock to use, the locale's clock when undefined
+ * @returns Formatted time (e.g., "9:30 AM", "09:30")
+ */
+export function formatTimeOfDay(time: TimeOnly, locale?: string, timeFormat?: TimeFormat): string {
+  const localeFormat = getLocaleTimeFormat(locale);
+  const twelveHour = (timeFormat ?? localeFormat) === TimeFormat.TwelveHour;
+  let hourCycle: 'h12' | 'h23' | 'h24' | undefined;
+  if (!twelveHour && time.isEndOfDay()) {
+    hourCycle = 'h24';
+  } else if (timeFormat !== undefined && timeFormat !== localeFormat) {
+    hourCycle = twelveHour ? 'h12' : 'h23';
+  }
+  return getFormatter(locale, hourCycle).format(new Date(Date.UTC(2000, 0, 1, time.hours, time.minutes)));
+}
+
+/**
+ * Build the time formatter a schedule uses for all of its times
+ * `formatTime` wins; with neither `locale` nor `timeFormat` times keep the "HH:mm" format.
+ */
+export function createTimeFormatter(config: Pick<ScheduleConfig, 'locale' | 'timeFormat' | 'formatTime'>): TimeFormatter {
+  if (config.formatTime) {
+    return config.formatTime;
+  }
+  if (config.locale === undefined && config.timeFormat === undefined) {
+    return time => time.toString();
+  }
+
+  const { locale } = config;
+  const timeFormat = config.timeFormat ?? getLocaleTimeFormat(locale);
+  return time => formatTimeOfDay(time, locale, timeFormat);
+}
@@ -0,0 +1,237 @@
+import type { EventTimeRange, ScheduleEvent } from '../types';
+import type { AxisRange, NowPosition } from '../types/internal';
+import { DayOfWeek, TimeOnly } from '../types';
+import { addDays, daysBetween, getDateForDay, getDayOfWeekFromDate, isDateInWeek, startOfDay, startOfWeek } from './dateHelpers';
+
+const MS_PER_MINUTE = 60 * 1000;
+const MINUTES_PER_DAY = 24 * 60;
+
+/**
+ * Formatters are expensive to create, keep one per time zone
+ */
+const formatterCache = new Map<string, Intl.DateTimeFormat>();
+
+function getFormatter(timeZone: string): Intl.DateTimeFormat {
+  let formatter = formatterCache.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric'
+    });
+    formatterCache.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
+/**
+ * Calendar date (as local midnight) and minutes since midnight of a wall clock
+ */
+interface WallTime {
+  date: Date;
+  minutes: number;
+}
+
+/**
+ * Check that a value is an IANA time zone name known to Intl (e.g., "Europe/Prague")
+ */
+export function isValidTimeZone(value: unknown): value is string {
+  if (typeof value !== 'string' || value.length === 0) return false;
+  try {
+    getFormatter(value);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Get the time zone of the browser (e.g., "America/New_York")
+ */
+export function getLocalTimeZone(): string {
+  return Intl.DateTimeFormat().resolvedOptions().timeZone;
+}
+
+/**
+ * Read the wall clock of a time zone at an instant
+ */
+function getWallTime(instant: number, timeZone: string): WallTime {
+  const parts = getFormatter(timeZone).formatToParts(new Date(instant));
+  const get = (type: Intl.DateTimeFormatPartTypes) => Number(parts.find(part => part.type === type)?.value);
+  return {
+    date: new Date(get('year'), get('month') - 1, get('day')),
+    minutes: get('hour') * 60 + get('minute')
+  };
+}
+
+/**
+ * UTC offset of a time zone at an instant, in minutes (e.g., 120 for Prague in summer)
+ */
+function getOffsetMinutes(instant: number, timeZone: string): number {
+  const wall = getWallTime(instant, timeZone);
+  const wallAsUtc = Date.UTC(wall.date.getFullYear(), wall.date.getMonth(), wall.date.getDate()) + wall.minutes * MS_PER_MINUTE;
+  return Math.round((wallAsUtc - instant) / MS_PER_MINUTE);
+}
+
+/**
+ * Find the instant a wall clock in a time zone shows a date and time
+ * Times skipped by a DST transition resolve to the same time after the transition (02:30 => 03:30).
+ */
+function getInstant(date: Date, minutes: number, timeZone: string): number {
+  const wallAsUtc = Date.UTC(date.getFullYear(), date.getMonth(), date.getDate()) + minutes * MS_PER_MINUTE;
+  // The offset at the wall time read as UTC is close; correct it with the offset at the first guess
+  const guess = wallAsUtc - getOffsetMinutes(wallAsUtc, timeZone) * MS_PER_MINUTE;
+  return wallAsUtc - getOffsetMinutes(guess, timeZone) * MS_PER_MINUTE;
+}
+
+/**
+ * Convert a time on an axis of a day from one time zone to another
+ * @param minutes - Minutes since midnight of `date` (may exceed 1440 on axes extending past midnight)
+ * @param date - Calendar date of the axis, which decides the UTC offsets (DST)
+ * @param fromZone - Time zone of `minutes`
+ * @param toZone - Time zone to convert to
+ * @returns Time of day in `toZone`
+ */
+export function convertTimeOfDay(minutes: number, date: Date, fromZone: string, toZone: string): TimeOnly {
+  const dayOffset = Math.floor(minutes / MINUTES_PER_DAY);
+  const instant = getInstant(addDays(date, dayOffset), minutes - dayOffset * MINUTES_PER_DAY, fromZone);
+  return TimeOnly.fromMinutes(getWallTime(instant, toZone).minutes);
+}
+
+/**
+ * Times of time axis positions in a second time zone
+ * UTC offsets are taken on the first visible day of the displayed week (the current week when
+ * the schedule is not date-anchored), so the times follow DST of that week.
+ * @param axisMinutes - Axis positions in minutes since midnight of the displayed day
+ * @param displayZone - Time zone the axis is displayed in
+ * @param secondaryZone - Time zone to convert to
+ * @param visibleDays - Days shown by the schedule, in week order
+ * @param weekStart - First day of the displayed week when date-anchored
+ * @param firstDayOfWeek - Day weeks start on (default: Monday)
+ */
+export function getSecondaryAxisTimes(
+  axisMinutes: number[],
+  displayZone: string,
+  secondaryZone: string,
+  visibleDays: DayOfWeek[],
+  weekStart?: Date,
+  firstDayOfWeek: DayOfWeek = DayOfWeek.Monday
+): TimeOnly[] {
+  const firstDay = visibleDays[0] ?? firstDayOfWeek;
+  const date = getDateForDay(weekStart ?? startOfWeek(new Date(), firstDayOfWeek), firstDay, firstDayOfWeek);
+  return axisMinutes.map(minutes => convertTimeOfDay(minutes, date, displayZone, secondaryZone));
+}
+
+/**
+ * Where the now indicator goes: the day columns and axis minutes showing an instant
+ * The instant is read on the wall clock of `displayZone`. On axes extending past midnight the
+ * early hours of today also show at the end of yesterday's column, so there can be two positions.
+ * @param now - Current time
+ * @param displayZone - Time zone the schedule is displayed in
+ * @param axis - Visible part of the time axis
+ * @param visibleDays - Days shown by the schedule
+ * @param weekStart - First day of the displayed week when date-anchored; other weeks get no indicator
+ * @param firstDayOfWeek - Day weeks start on (default: Monday)
+ */
+export function getNowPositions(
+  now: Date,
+  displayZone: string,
+  axis: AxisRange,
+  visibleDays: DayOfWeek[],
+  weekStart?: Date,
+  firstDayOfWeek: DayOfWeek = DayOfWeek.Monday
+): NowPosition[] {
+  const today = getWallTime(now.getTime(), displayZone);
+  const candidates = [
+    today,
+    { date: addDays(today.date, -1), minutes: today.minutes + MINUTES_PER_DAY }
+  ];
+
+  return candidates
+    .filter(({ date, minutes }) =>
+      minutes >= axis.startMinutes &&
+      minutes < axis.endMinutes &&
+      (!weekStart || isDateInWeek(date, weekStart, firstDayOfWeek)))
+    .map(({ date, minutes }) => ({ day: getDayOfWeekFromDate(date), minutes }))
+    .filter(position => visibleDays.includes(position.day));
+}
+
+/**
+ * Convert the day and times of an event from one time zone to another
+ * @param range - Day and times in `fromZone`
+ * @param date - Calendar date of the range, which decides the UTC offsets (DST)
+ * @param fromZone - Time zone of `range`
+ * @param toZone - Time zone to convert to
+ * @returns Range in `toZone`; `date` is the calendar date of the converted start
+ */
+export function convertTimeRange(
+  range: EventTimeRange,
+  date: Date,
+  fromZone: string,
+  toZone: string
+): EventTimeRange & { date: Date } {
+  const endsNextDay = range.endsNextDay || range.endTime.isEndOfDay();
+  const startInstant = getInstant(date, range.startTime.toMinutes(), fromZone);
+  const endInstant = getInstant(
+    endsNextDay ? addDays(date, 1) : date,
+    range.endTime.isEndOfDay() ? 0 : range.endTime.toMinutes(),
+    fromZone
+  );
+
+  const start = getWallTime(startInstant, toZone);
+  const end = getWallTime(endInstant, toZone);
+  const converted: EventTimeRange & { date: Date } = {
+    day: getDayOfWeekFromDate(start.date),
+    date: start.date,
+    startTime: TimeOnly.fromMinutes(start.minutes),
+    endTime: TimeOnly.fromMinutes(end.minutes)
+  };
+
+  if (daysBetween(start.date, end.date) > 0) {
+    if (end.minutes === 0) {
+      converted.endTime = TimeOnly.endOfDay();
+    } else {
+      converted.endsNextDay = true;
+    }
+  }
+  return converted;
+}
+
+/**
+ * Convert events with their own `timeZone` into the time zone the schedule displays
+ * Dated events are converted on their date and may move to another date. Weekly patterns
+ * are converted on their day in `weekStart`'s week (default: the current week), so DST
+ * in a date-anchored week is respected. Converted events carry `timeZone: displayZone`.
+ * @param events - Events to convert; events without `timeZone` are returned unchanged
+ * @param displayZone - Time zone to display in
+ * @param weekStart - First day of the displayed week, for weekly patterns
+ * @param firstDayOfWeek - Day weeks start on (default: Monday)
+ */
+export function convertEventsToTimeZone(
+  events: ScheduleEvent[],
+  displayZone: string,
+  weekStart?: Date,
+  firstDayOfWeek: DayOfWeek = DayOfWeek.Monday
+): ScheduleEvent[] {
+  const referenceWeek = weekStart ?? startOfWeek(new Date(), firstDayOfWeek);
+
+  return events.map(event => {
+    if (!event.timeZone || event.timeZone === displayZone) {
+      return event;
+    }
+
+    const date = event.date ? startOfDay(event.date) : getDateForDay(referenceWeek, event.day, firstDayOfWeek);
+    const { date: convertedDate, ...converted } = convertTimeRange(event, date, event.timeZone, displayZone);
+    const { endsNextDay: _endsNextDay, ...rest } = event;
+    return {
+      ...rest,
+      ...converted,
+      ...(event.date ? { date: convertedDate } : {}),
+      timeZone: displayZone
+    };
+  });
+}
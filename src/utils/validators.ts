@@ -1,6 +1,9 @@
-import type { DayOfWeek, ScheduleEvent, ScheduleConfig, ValidationError, TimeOnly } from '../types';
+import type { BackgroundRange, DayOfWeek, ScheduleEvent, ScheduleConfig, ScheduleResource, ValidationError, TimeOnly } from '../types';
 import type { Result } from '../types/internal';
-import { DayOfWeek as DayEnum, TimeOnly as TimeOnlyClass } from '../types';
+import { DayOfWeek as DayEnum, LaneLayout, OverflowBehavior, TimeFormat, TimeOnly as TimeOnlyClass } from '../types';
+import { isValidDate } from './dateHelpers';
+import { isValidTimeZone } from './timeZone';
+import { isValidLocale } from './timeFormat';
 
 /**
  * Type guard to check if a value is a valid DayOfWeek enum value
@@ -70,17 +73,78 @@ export function validateEvent(event: unknown): Result<void, ValidationError[]> {
     });
   }
 
+  // 24:00 only marks the end of a day
+  if (isValidTimeOnly(e.startTime) && e.startTime.isEndOfDay()) {
+    errors.push({
+      field: 'startTime',
+      message: 'startTime must not be 24:00',
+      value: e.startTime.toString()
+    });
+  }
+
+  if (isValidTimeOnly(e.endTime) && e.endTime.isEndOfDay() && e.endTime.minutes !== 0) {
+    errors.push({
+      field: 'endTime',
+      message: 'endTime with hour 24 must be 24:00',
+      value: e.endTime.toString()
+    });
+  }
+
+  // Validate endsNextDay
+  if (e.endsNextDay !== undefined && typeof e.endsNextDay !== 'boolean') {
+    errors.push({
+      field: 'endsNextDay',
+      message: 'endsNextDay must be a boolean',
+      value: e.endsNextDay
+    });
+  }
+
   // Validate time order (only if both are valid)
   if (isValidTimeOnly(e.startTime) && isValidTimeOnly(e.endTime)) {
-    if (!e.endTime.isAfter(e.startTime)) {
+    if (e.endsNextDay === true) {
+      if (e.endTime.isAfter(e.startTime) || e.endTime.isEndOfDay()) {
+        errors.push({
+          field: 'endTime',
+          message: 'endTime of an event ending the next day must not be after startTime',
+          value: { startTime: e.startTime.toString(), endTime: e.endTime.toString() }
+        });
+      }
+    } else if (!e.endTime.isAfter(e.startTime)) {
       errors.push({
         field: 'endTime',
-        message: 'endTime must be after startTime',
+        message: 'endTime must be after startTime (set endsNextDay for overnight events)',
         value: { startTime: e.startTime.toString(), endTime: e.endTime.toString() }
       });
     }
   }
 
+  // Validate date
+  if (e.date !== undefined && !isValidDate(e.date)) {
+    errors.push({
+      field: 'date',
+      message: 'date must be a valid Date instance',
+      value: e.date
+    });
+  }
+
+  // Validate timeZone
+  if (e.timeZone !== undefined && !isValidTimeZone(e.timeZone)) {
+    errors.push({
+      field: 'timeZone',
+      message: 'timeZone must be an IANA time zone name (e.g., "Europe/Prague")',
+      value: e.timeZone
+    });
+  }
+
+  // Validate resourceId
+  if (e.resourceId !== undefined && typeof e.resourceId !== 'string') {
+    errors.push({
+      field: 'resourceId',
+      message: 'resourceId must be a string',
+      value: e.resourceId
+    });
+  }
+
   // Validate title
   if (typeof e.title !== 'string' || e.title.length === 0) {
     errors.push({
@@ -97,6 +161,29 @@ export function validateEvent(event: unknown): Result<void, ValidationError[]> {
   return { success: true, data: undefined };
 }
 
+/**
+ * Validate an array of events
+ * Field names are prefixed with the event index (e.g., "events[2].title")
+ */
+export function validateEvents(events: unknown[]): Result<void, ValidationError[]> {
+  const errors: ValidationError[] = [];
+
+  events.forEach((event, index) => {
+    const result = validateEvent(event);
+    if (!result.success) {
+      result.error.forEach(err => {
+        errors.push({ ...err, field: `events[${index}].${err.field}` });
+      });
+    }
+  });
+
+  if (errors.length > 0) {
+    return { success: false, error: errors };
+  }
+
+  return { success: true, data: undefined };
+}
+
 /**
  * Validate configuration object
  */
@@ -133,6 +220,15 @@ export function validateConfig(config: unknown): Result<void, ValidationError[]>
     }
   }
 
+  // Validate firstDayOfWeek
+  if (c.firstDayOfWeek !== undefined && !isDayOfWeek(c.firstDayOfWeek)) {
+    errors.push({
+      field: 'firstDayOfWeek',
+      message: 'firstDayOfWeek must be a valid DayOfWeek enum value (0-6)',
+      value: c.firstDayOfWeek
+    });
+  }
+
   // Validate hour range (runtime check for valid Hour values)
   if (c.startHour !== undefined) {
     if (typeof c.startHour !== 'number' || !Number.isInteger(c.startHour) || c.startHour < 0 || c.startHour > 23) {
@@ -145,10 +241,10 @@ export function validateConfig(config: unknown): Result<void, ValidationError[]>
   }
 
   if (c.endHour !== undefined) {
-    if (typeof c.endHour !== 'number' || !Number.isInteger(c.endHour) || c.endHour < 0 || c.endHour > 23) {
+    if (typeof c.endHour !== 'number' || !Number.isInteger(c.endHour) || c.endHour < 1 || c.endHour > 48) {
       errors.push({
         field: 'endHour',
-        message: 'endHour must be an integer between 0 and 23',
+        message: 'endHour must be an integer between 1 and 48',
         value: c.endHour
       });
     }
@@ -163,6 +259,126 @@ export function validateConfig(config: unknown): Result<void, ValidationError[]>
     });
   }
 
+  // Validate minute-precise visible range
+  for (const field of ['visibleStart', 'visibleEnd'] as const) {
+    if (c[field] !== undefined && !isValidTimeOnly(c[field])) {
+      errors.push({
+        field,
+        message: `${field} must be a TimeOnly instance`,
+        value: c[field]
+      });
+    }
+  }
+
+  if (isValidTimeOnly(c.visibleStart) && c.visibleStart.isEndOfDay()) {
+    errors.push({
+      field: 'visibleStart',
+      message: 'visibleStart must be before 24:00',
+      value: c.visibleStart
+    });
+  }
+
+  // Validate time slot intervals
+  if (c.timeSlotInterval !== undefined) {
+    // A minute-precise range may start or end between slot boundaries
+    const hourAligned = c.visibleStart === undefined && c.visibleEnd === undefined;
+    const axisMinutes = hourAligned ? ((c.endHour ?? 17) - (c.startHour ?? 9)) * 60 : 0;
+    if (typeof c.timeSlotInterval !== 'number' || !Number.isInteger(c.timeSlotInterval) || c.timeSlotInterval <= 0) {
+      errors.push({
+        field: 'timeSlotInterval',
+        message: 'timeSlotInterval must be a positive whole number of minutes',
+        value: c.timeSlotInterval
+      });
+    } else if (axisMinutes > 0 && axisMinutes % c.timeSlotInterval !== 0) {
+      errors.push({
+        field: 'timeSlotInterval',
+        message: `timeSlotInterval must divide the time axis (${axisMinutes} minutes) into whole slots`,
+        value: c.timeSlotInterval
+      });
+    }
+  }
+
+  if (c.labelInterval !== undefined) {
+    const slotInterval = c.timeSlotInterval ?? 60;
+    if (typeof c.labelInterval !== 'number' || !Number.isInteger(c.labelInterval) || c.labelInterval <= 0) {
+      errors.push({
+        field: 'labelInterval',
+        message: 'labelInterval must be a positive whole number of minutes',
+        value: c.labelInterval
+      });
+    } else if (c.labelInterval % slotInterval !== 0) {
+      errors.push({
+        field: 'labelInterval',
+        message: 'labelInterval must be a multiple of timeSlotInterval',
+        value: { labelInterval: c.labelInterval, timeSlotInterval: slotInterval }
+      });
+    }
+  }
+
+  // Validate time zones
+  for (const field of ['timeZone', 'secondaryTimeZone'] as const) {
+    if (c[field] !== undefined && !isValidTimeZone(c[field])) {
+      errors.push({
+        field,
+        message: `${field} must be an IANA time zone name (e.g., "Europe/Prague")`,
+        value: c[field]
+      });
+    }
+  }
+
+  // Validate time formatting
+  if (c.locale !== undefined && !isValidLocale(c.locale)) {
+    errors.push({
+      field: 'locale',
+      message: 'locale must be a BCP 47 language tag (e.g., "en-US")',
+      value: c.locale
+    });
+  }
+
+  if (c.timeFormat !== undefined && c.timeFormat !== TimeFormat.TwelveHour && c.timeFormat !== TimeFormat.TwentyFourHour) {
+    errors.push({
+      field: 'timeFormat',
+      message: 'timeFormat must be either "12h" or "24h"',
+      value: c.timeFormat
+    });
+  }
+
+  // Validate laneLayout
+  if (c.laneLayout !== undefined && c.laneLayout !== LaneLayout.Equal && c.laneLayout !== LaneLayout.Expand) {
+    errors.push({
+      field: 'laneLayout',
+      message: 'laneLayout must be either "equal" or "expand"',
+      value: c.laneLayout
+    });
+  }
+
+  // Validate overflow options
+  if (c.maxVisibleLanes !== undefined &&
+      (typeof c.maxVisibleLanes !== 'number' || !Number.isInteger(c.maxVisibleLanes) || c.maxVisibleLanes < 1)) {
+    errors.push({
+      field: 'maxVisibleLanes',
+      message: 'maxVisibleLanes must be a whole number of at least 1',
+      value: c.maxVisibleLanes
+    });
+  }
+
+  if (c.minEventWidthPx !== undefined &&
+      (typeof c.minEventWidthPx !== 'number' || !Number.isFinite(c.minEventWidthPx) || c.minEventWidthPx <= 0)) {
+    errors.push({
+      field: 'minEventWidthPx',
+      message: 'minEventWidthPx must be a positive number',
+      value: c.minEventWidthPx
+    });
+  }
+
+  if (c.overflowBehavior !== undefined && !Object.values(OverflowBehavior).includes(c.overflowBehavior)) {
+    errors.push({
+      field: 'overflowBehavior',
+      message: 'overflowBehavior must be "zoom", "popover" or "expand"',
+      value: c.overflowBehavior
+    });
+  }
+
   // Validate orientation
   if (c.orientation !== undefined) {
     if (c.orientation !== 'vertical' && c.orientation !== 'horizontal') {
@@ -174,6 +390,17 @@ export function validateConfig(config: unknown): Result<void, ValidationError[]>
     }
   }
 
+  // Validate direction
+  if (c.direction !== undefined) {
+    if (c.direction !== 'ltr' && c.direction !== 'rtl') {
+      errors.push({
+        field: 'direction',
+        message: 'direction must be either "ltr" or "rtl"',
+        value: c.direction
+      });
+    }
+  }
+
   // Validate eventGap
   if (c.eventGap !== undefined) {
     if (typeof c.eventGap === 'number') {
@@ -204,6 +431,85 @@ export function validateConfig(config: unknown): Result<void, ValidationError[]>
     }
   }
 
+  // Validate weekStartDate
+  if (c.weekStartDate !== undefined && !isValidDate(c.weekStartDate)) {
+    errors.push({
+      field: 'weekStartDate',
+      message: 'weekStartDate must be a valid Date instance',
+      value: c.weekStartDate
+    });
+  }
+
+  // Validate now indicator
+  if (c.showNowIndicator !== undefined && typeof c.showNowIndicator !== 'boolean') {
+    errors.push({
+      field: 'showNowIndicator',
+      message: 'showNowIndicator must be a boolean',
+      value: c.showNowIndicator
+    });
+  }
+
+  if (c.clock !== undefined && typeof c.clock !== 'function') {
+    errors.push({
+      field: 'clock',
+      message: 'clock must be a function returning a Date',
+      value: c.clock
+    });
+  }
+
+  // Validate background ranges
+  if (c.backgrounds !== undefined) {
+    if (!Array.isArray(c.backgrounds)) {
+      errors.push({
+        field: 'backgrounds',
+        message: 'backgrounds must be an array',
+        value: c.backgrounds
+      });
+    } else {
+      c.backgrounds.forEach((background, index) => {
+        errors.push(...validateBackgroundRange(background, `backgrounds[${index}]`));
+      });
+    }
+  }
+
+  // Validate resources
+  if (c.resources !== undefined) {
+    if (!Array.isArray(c.resources)) {
+      errors.push({
+        field: 'resources',
+        message: 'resources must be an array',
+        value: c.resources
+      });
+    } else {
+      const ids = new Set<string>();
+      c.resources.forEach((resource: Partial<ScheduleResource> | null, index) => {
+        if (typeof resource?.id !== 'string' || resource.id.length === 0) {
+          errors.push({
+            field: `resources[${index}].id`,
+            message: 'Resource id is required and must be a non-empty string',
+            value: resource?.id
+          });
+        } else if (ids.has(resource.id)) {
+          errors.push({
+            field: `resources[${index}].id`,
+            message: 'Resource ids must be unique',
+            value: resource.id
+          });
+        } else {
+          ids.add(resource.id);
+        }
+
+        if (typeof resource?.name !== 'string') {
+          errors.push({
+            field: `resources[${index}].name`,
+            message: 'Resource name must be a string',
+            value: resource?.name
+          });
+        }
+      });
+    }
+  }
+
   if (errors.length > 0) {
     return { success: false, error: errors };
   }
@@ -211,3 +517,57 @@ export function validateConfig(config: unknown): Result<void, ValidationError[]>
   return { success: true, data: undefined };
 }
 
+/**
+ * Validate one entry of config.backgrounds
+ * @param field - Field name prefix of the errors (e.g., "backgrounds[2]")
+ */
+function validateBackgroundRange(value: unknown, field: string): ValidationError[] {
+  if (typeof value !== 'object' || value === null) {
+    return [{ field, message: 'Background range must be an object', value }];
+  }
+
+  const errors: ValidationError[] = [];
+  const b = value as Partial<BackgroundRange>;
+
+  if (!Array.isArray(b.days) || b.days.length === 0) {
+    errors.push({ field: `${field}.days`, message: 'days must be a non-empty array', value: b.days });
+  } else {
+    b.days.forEach((day, index) => {
+      if (!isDayOfWeek(day)) {
+        errors.push({
+          field: `${field}.days[${index}]`,
+          message: 'Invalid day. Must be a valid DayOfWeek enum value (0-6)',
+          value: day
+        });
+      }
+    });
+  }
+
+  for (const time of ['startTime', 'endTime'] as const) {
+    if (b[time] !== undefined && !isValidTimeOnly(b[time])) {
+      errors.push({ field: `${field}.${time}`, message: `${time} must be a TimeOnly instance`, value: b[time] });
+    }
+  }
+
+  const start = isValidTimeOnly(b.startTime) ? b.startTime.toMinutes() : 0;
+  const end = isValidTimeOnly(b.endTime) ? b.endTime.toMinutes() : 24 * 60;
+  if (end <= start) {
+    errors.push({
+      field: `${field}.endTime`,
+      message: 'endTime must be after startTime',
+      value: { startTime: b.startTime, endTime: b.endTime }
+    });
+  }
+
+  for (const text of ['label', 'className'] as const) {
+    if (b[text] !== undefined && typeof b[text] !== 'string') {
+      errors.push({ field: `${field}.${text}`, message: `${text} must be a string`, value: b[text] });
+    }
+  }
+
+  if (b.unavailable !== undefined && typeof b.unavailable !== 'boolean') {
+    errors.push({ field: `${field}.unavailable`, message: 'unavailable must be a boolean', value: b.unavailable });
+  }
+
+  return errors;
+}